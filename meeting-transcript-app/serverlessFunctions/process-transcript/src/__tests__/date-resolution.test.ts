@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createDateResolutionContext,
+  formatLocalDate,
+  getDateResolutionConfig,
+  resolveDueDate,
+  type DateResolutionConfig,
+} from '../date-resolution.js';
+
+const config: DateResolutionConfig = {
+  timezone: 'UTC',
+  endOfWeekDay: 5,
+  workingDays: [1, 2, 3, 4, 5],
+  dueTime: { hours: 17, minutes: 0 },
+};
+
+// Monday, 19 October 2026.
+const MEETING_DATE = '2026-10-19';
+
+const resolve = (expression: string, language?: string, timezone = 'UTC') =>
+  resolveDueDate(expression, {
+    ...createDateResolutionContext(MEETING_DATE, { ...config, timezone }),
+    ...(language && { language }),
+  });
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('resolveDueDate', () => {
+  it.each([
+    ['today', '2026-10-19'],
+    ['tomorrow', '2026-10-20'],
+    ['day after tomorrow', '2026-10-21'],
+    ['by Friday', '2026-10-23'],
+    ['next Friday', '2026-10-23'],
+    ['Friday next week', '2026-10-30'],
+    ['Monday next week', '2026-10-26'],
+    ['Sunday next week', '2026-11-01'],
+    ['Monday', '2026-10-26'],
+    ['this Monday', '2026-10-19'],
+    ['end of week', '2026-10-23'],
+    ['end of next week', '2026-10-30'],
+    ['next week', '2026-10-26'],
+    ['in 3 days', '2026-10-22'],
+    // Lands on a Saturday and moves forward to Monday.
+    ['in 5 days', '2026-10-26'],
+    ['in 2 business days', '2026-10-21'],
+    ['in two weeks', '2026-11-02'],
+    // 31 October is a Saturday, so the deadline moves back to Friday.
+    ['end of month', '2026-10-30'],
+    ['next month', '2026-11-30'],
+    ['end of quarter', '2026-12-31'],
+    ['Q1', '2027-03-31'],
+    ['end of year', '2026-12-31'],
+    ['November 3rd', '2026-11-03'],
+    ['3 March', '2027-03-03'],
+    // 15 November is a Sunday.
+    ['mid November', '2026-11-16'],
+    ['2026-11-05', '2026-11-05'],
+  ])('resolves "%s" to %s', (expression, date) => {
+    expect(resolve(expression)?.date).toBe(date);
+  });
+
+  it.each([
+    ['es', 'el próximo viernes', '2026-10-23'],
+    ['es', 'fin de mes', '2026-10-30'],
+    ['es', 'mañana', '2026-10-20'],
+    ['de', 'bis Freitag', '2026-10-23'],
+    ['de', 'Ende des Monats', '2026-10-30'],
+    ['de', 'in zwei Wochen', '2026-11-02'],
+    ['fr', 'vendredi prochain', '2026-10-23'],
+    ['fr', "d'ici la fin du mois", '2026-10-30'],
+    ['fr', 'demain', '2026-10-20'],
+  ])('resolves %s "%s" to %s', (language, expression, date) => {
+    expect(resolve(expression, language)?.date).toBe(date);
+  });
+
+  it.each(['someday', 'when we can', '2026-02-30', ''])('does not resolve "%s"', (expression) => {
+    expect(resolve(expression)).toBeNull();
+  });
+
+  it.each([
+    ['by Friday', 'America/New_York', '2026-10-23T21:00:00.000Z'],
+    // Daylight saving time ends in New York on 1 November.
+    ['in two weeks', 'America/New_York', '2026-11-02T22:00:00.000Z'],
+    ['by Friday', 'Europe/Berlin', '2026-10-23T15:00:00.000Z'],
+    ['Monday', 'Europe/Berlin', '2026-10-26T16:00:00.000Z'],
+  ])('sets the due time of "%s" in %s', (expression, timezone, dueAt) => {
+    expect(resolve(expression, undefined, timezone)?.dueAt).toBe(dueAt);
+  });
+
+  it('keeps the expression as it was said', () => {
+    expect(resolve('  by Friday ')?.expression).toBe('by Friday');
+  });
+});
+
+describe('createDateResolutionContext', () => {
+  it.each([
+    ['2026-10-19', 'UTC', { year: 2026, month: 10, day: 19 }],
+    ['2026-10-20T02:30:00Z', 'America/New_York', { year: 2026, month: 10, day: 19 }],
+    ['2026-10-19T23:30:00Z', 'Asia/Tokyo', { year: 2026, month: 10, day: 20 }],
+  ])('reads "%s" in %s as the meeting date', (meetingDate, timezone, expected) => {
+    expect(createDateResolutionContext(meetingDate, { ...config, timezone }).meetingDate).toEqual(expected);
+  });
+
+  it.each(['not a date', '2025-13-45', '2026-00-10', '2026-02-29', '2026-04-31', '2026-02-30T10:00:00Z'])(
+    'rejects "%s"',
+    (meetingDate) => {
+      expect(() => createDateResolutionContext(meetingDate, config)).toThrow(`meetingDate "${meetingDate}" is not a valid date`);
+    },
+  );
+
+  it('accepts a leap day', () => {
+    expect(createDateResolutionContext('2028-02-29', config).meetingDate).toEqual({ year: 2028, month: 2, day: 29 });
+  });
+});
+
+describe('getDateResolutionConfig', () => {
+  it('uses the defaults', () => {
+    for (const name of ['DEFAULT_TIMEZONE', 'END_OF_WEEK_DAY', 'WORKING_DAYS', 'DUE_TIME']) {
+      vi.stubEnv(name, undefined);
+    }
+    expect(getDateResolutionConfig()).toEqual(config);
+  });
+
+  it('reads the week settings from the environment', () => {
+    vi.stubEnv('DEFAULT_TIMEZONE', 'UTC');
+    vi.stubEnv('END_OF_WEEK_DAY', 'thursday');
+    vi.stubEnv('WORKING_DAYS', 'monday,tuesday,wednesday,thursday');
+    vi.stubEnv('DUE_TIME', '09:30');
+    const context = createDateResolutionContext(MEETING_DATE, getDateResolutionConfig());
+
+    expect(resolveDueDate('end of week', context)?.date).toBe('2026-10-22');
+    // Friday is no longer a working day, so the month-end deadline moves back to Thursday.
+    expect(resolveDueDate('end of month', context)?.date).toBe('2026-10-29');
+    expect(resolveDueDate('tomorrow', context)?.dueAt).toBe('2026-10-20T09:30:00.000Z');
+  });
+
+  it.each([
+    ['DEFAULT_TIMEZONE', 'Mars/Olympus', 'Invalid timezone'],
+    ['END_OF_WEEK_DAY', 'someday', 'END_OF_WEEK_DAY must be a weekday name'],
+    ['DUE_TIME', '25:00', 'DUE_TIME must be in HH:mm format'],
+  ])('rejects an invalid %s', (name, value, message) => {
+    vi.stubEnv(name, value);
+    expect(() => getDateResolutionConfig()).toThrow(message);
+  });
+});
+
+describe('formatLocalDate', () => {
+  it('returns the date an instant falls on in the time zone', () => {
+    expect(formatLocalDate('2026-10-20T02:30:00.000Z', 'America/New_York')).toBe('2026-10-19');
+    expect(formatLocalDate('2026-10-20T02:30:00.000Z', 'Europe/Berlin')).toBe('2026-10-20');
+  });
+});
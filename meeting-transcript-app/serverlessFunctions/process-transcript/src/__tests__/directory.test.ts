@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createDirectory,
+  matchCompanyName,
+  matchName,
+  type CompanyEntry,
+  type DirectoryEntry,
+  type DirectoryKind,
+} from '../directory.js';
+
+const person = (id: string, firstName: string, lastName: string, emails: string[] = []): DirectoryEntry => ({
+  id,
+  firstName,
+  lastName,
+  emails,
+});
+
+const people = [
+  person('p-robert', 'Robert', 'Smith', ['bob@example.com']),
+  person('p-katherine', 'Katherine', 'Jones'),
+  person('p-alex', 'Alex', 'Brown'),
+  person('p-alexandra', 'Alexandra', 'Green'),
+  person('p-sam-lee', 'Sam', 'Lee', ['sam@example.com']),
+  person('p-sam-park', 'Sam', 'Park', ['sam@example.com']),
+  person('p-jose', 'José', 'Núñez'),
+];
+
+const companies: CompanyEntry[] = [
+  { id: 'c-acme', name: 'Acme Inc', domain: 'acme.com' },
+  { id: 'c-globex', name: 'Globex Corporation', domain: 'https://www.globex.io' },
+  { id: 'c-massive', name: 'Massive Dynamic', domain: 'https://massive.com/about' },
+];
+
+describe('matchName', () => {
+  it.each([
+    ['Robert Smith', 'p-robert', 'exact', 1],
+    ['robert  smith', 'p-robert', 'exact', 1],
+    ['Jose Nunez', 'p-jose', 'exact', 1],
+    ['Bob Smith', 'p-robert', 'nickname', 0.9],
+    ['R. Smith', 'p-robert', 'initial and last name', 0.8],
+    ['Katherine', 'p-katherine', 'first name', 0.7],
+    ['Jones', 'p-katherine', 'last name', 0.65],
+    ['Kate', 'p-katherine', 'nickname', 0.6],
+    // "Alex" is also a nickname for Alexandra, but the first-name match wins by a clear margin.
+    ['Alex', 'p-alex', 'first name', 0.7],
+    ['bob@example.com', 'p-robert', 'email', 1],
+  ])('matches "%s" to %s by %s', (name, id, method, confidence) => {
+    expect(matchName(name, 'person', people)).toMatchObject({ status: 'matched', id, method, confidence });
+  });
+
+  it.each([
+    ['RS', 'p-robert', 'initials'],
+    ['Kath', 'p-katherine', 'partial'],
+  ])('reports "%s" as a low-confidence match for %s', (name, id, method) => {
+    const resolution = matchName(name, 'person', people);
+
+    expect(resolution).toMatchObject({ status: 'low_confidence', method, candidates: [{ id }] });
+    expect(resolution.id).toBeUndefined();
+  });
+
+  it.each(['Sam', 'sam@example.com'])('reports "%s" as ambiguous between both candidates', (name) => {
+    const resolution = matchName(name, 'person', people);
+
+    expect(resolution.status).toBe('ambiguous');
+    expect(resolution.id).toBeUndefined();
+    expect(resolution.candidates?.map((candidate) => candidate.id)).toEqual(['p-sam-lee', 'p-sam-park']);
+  });
+
+  it.each(['Katy', 'Dana White', 'nobody@example.com', '  '])('does not match "%s"', (name) => {
+    expect(matchName(name, 'person', people)).toMatchObject({ status: 'not_found', confidence: 0 });
+  });
+});
+
+describe('matchCompanyName', () => {
+  it.each([
+    ['ACME', 'c-acme', 'exact'],
+    ['Acme Holdings', 'c-acme', 'exact'],
+    ['Globex', 'c-globex', 'exact'],
+    ['Massive', 'c-massive', 'domain'],
+    ['Globex Europe', 'c-globex', 'partial'],
+  ])('matches "%s" to %s by %s', (name, id, method) => {
+    expect(matchCompanyName(name, companies)).toMatchObject({ status: 'matched', id, method });
+  });
+
+  it('does not match an unknown company', () => {
+    expect(matchCompanyName('Initech', companies).status).toBe('not_found');
+  });
+});
+
+describe('createDirectory', () => {
+  const createLoadedDirectory = () =>
+    createDirectory(new Map<DirectoryKind, Promise<unknown[] | null>>([['person', Promise.resolve([...people])]]));
+
+  it('keeps earlier resolutions when an entry is added', async () => {
+    const directory = createLoadedDirectory();
+    await directory.resolvePerson('Bob Smith');
+    await directory.resolvePerson('Dana White');
+
+    await directory.addPerson(person('p-dana', 'Dana', 'White'));
+
+    expect(directory.getResolutions().map((resolution) => [resolution.name, resolution.status])).toEqual([
+      ['Bob Smith', 'matched'],
+      ['Dana White', 'not_found'],
+    ]);
+    expect(await directory.resolvePerson('Dana White')).toMatchObject({ status: 'matched', id: 'p-dana' });
+    expect(directory.getResolutions().map((resolution) => [resolution.name, resolution.status])).toEqual([
+      ['Bob Smith', 'matched'],
+      ['Dana White', 'matched'],
+    ]);
+  });
+
+  it('keeps added entries and resolutions in the fork until commit', async () => {
+    const directory = createLoadedDirectory();
+    const first = directory.fork();
+    const second = directory.fork();
+
+    await first.addPerson(person('p-dana', 'Dana', 'White'));
+    expect((await second.resolvePerson('Dana White')).status).toBe('not_found');
+    expect(second.getResolutions()).toHaveLength(1);
+    expect(first.getResolutions()).toHaveLength(0);
+
+    await first.commit();
+    expect((await directory.fork().resolvePerson('Dana White')).status).toBe('matched');
+  });
+
+  it('reports a failed lookup', async () => {
+    const directory = createDirectory(
+      new Map<DirectoryKind, Promise<unknown[] | null>>([['person', Promise.resolve(null)]]),
+    );
+
+    expect((await directory.resolvePerson('Robert Smith')).status).toBe('lookup_failed');
+  });
+});
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRunLogger } from '../logger.js';
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.stubEnv('LOG_LEVEL', 'debug');
+  vi.stubEnv('LOG_INCLUDE_CONTENT', undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('createRunLogger', () => {
+  it('does not let caller fields replace the run id, level or message', () => {
+    const logger = createRunLogger({ runId: 'run-1', fields: { runId: 'batch', source: 'webhook' } });
+    logger.warn('Task skipped', { level: 'debug', message: 'other', timestamp: 'yesterday', count: 2 });
+    const [entry] = logger.getEntries();
+
+    expect(entry).toEqual({
+      timestamp: expect.not.stringMatching('yesterday'),
+      level: 'warn',
+      runId: 'run-1',
+      message: 'Task skipped',
+      source: 'webhook',
+      count: 2,
+    });
+    expect(Object.keys(entry ?? {}).slice(0, 4)).toEqual(['timestamp', 'level', 'runId', 'message']);
+  });
+
+  it('drops content fields unless LOG_INCLUDE_CONTENT is true', () => {
+    const logger = createRunLogger();
+    logger.info('Task created', { id: 'task-1', title: 'Send the contract' });
+    vi.stubEnv('LOG_INCLUDE_CONTENT', 'true');
+    const contentLogger = createRunLogger();
+    contentLogger.info('Task created', { id: 'task-1', title: 'Send the contract' });
+
+    expect(logger.getEntries()[0]).not.toHaveProperty('title');
+    expect(contentLogger.getEntries()[0]).toHaveProperty('title', 'Send the contract');
+  });
+
+  it('skips entries below LOG_LEVEL', () => {
+    vi.stubEnv('LOG_LEVEL', 'warn');
+    const logger = createRunLogger();
+    logger.info('Directory loaded');
+    logger.error('Failed to load people');
+
+    expect(logger.getEntries().map((entry) => entry.level)).toEqual(['error']);
+  });
+});
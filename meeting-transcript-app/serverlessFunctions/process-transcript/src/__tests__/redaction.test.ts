@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRedactor, getRedactionConfig, type RedactionConfig } from '../redaction.js';
+
+const config: RedactionConfig = {
+  categories: ['person', 'email', 'phone', 'card', 'health'],
+  allowedValues: [],
+  keepOutOfCrm: false,
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('createRedactor', () => {
+  it('matches names case-sensitively and first names only when capitalized', () => {
+    const redactor = createRedactor(config, ['Will Turner', 'Mark Chen']);
+
+    expect(redactor.redact('Will said we will mark the draft. Mark Chen agreed, and WILL reviews it.')).toBe(
+      '[PERSON_1] said we will mark the draft. [PERSON_2] agreed, and WILL reviews it.',
+    );
+  });
+
+  it('gives a first name the placeholder of the full name', () => {
+    const redactor = createRedactor(config, ['Will Turner']);
+
+    expect(redactor.redact('Will Turner opened and Will closed.')).toBe('[PERSON_1] opened and [PERSON_1] closed.');
+  });
+
+  it('leaves a first name shared by two participants alone', () => {
+    const redactor = createRedactor(config, ['Sam Lee', 'Sam Park']);
+
+    expect(redactor.redact('Sam Lee asked Sam Park, then Sam left.')).toBe('[PERSON_1] asked [PERSON_2], then Sam left.');
+  });
+
+  it.each([
+    ['Write to will.turner@example.com', 'Write to [EMAIL_1]'],
+    ['Call +1 415 555 0100 tomorrow', 'Call [PHONE_1] tomorrow'],
+    ['Card 4111 1111 1111 1111 on file', 'Card [CARD_1] on file'],
+    ['She was diagnosed with type 2 diabetes', 'She was [HEALTH_1]'],
+    ['She is on medical leave', 'She is on [HEALTH_1]'],
+    ['Kickoff on 2026-10-19 with 1.250.000 users', 'Kickoff on 2026-10-19 with 1.250.000 users'],
+    ['Order 1234 5678 9012 3456 shipped', 'Order 1234 5678 9012 3456 shipped'],
+  ])('redacts "%s"', (text, redacted) => {
+    expect(createRedactor(config, []).redact(text)).toBe(redacted);
+  });
+
+  it('only redacts the configured categories and skips allowed values', () => {
+    const redactor = createRedactor(
+      { ...config, categories: ['email'], allowedValues: ['support@example.com'] },
+      ['Will Turner'],
+    );
+
+    expect(redactor.redact('Will Turner: mail support@example.com or will@example.com')).toBe(
+      'Will Turner: mail support@example.com or [EMAIL_1]',
+    );
+  });
+
+  it('restores every placeholder in the analysis', () => {
+    const redactor = createRedactor(config, ['Will Turner']);
+    redactor.redact('Will Turner will mail will@example.com and call +1 415 555 0100.');
+
+    expect(
+      redactor.restore({
+        summary: '[PERSON_1] will follow up by PHONE_1.',
+        actionItems: [{ title: 'Email [EMAIL_1]', assignee: '[PERSON_1]', priority: 2 }],
+        unknown: '[EMAIL_9]',
+        done: false,
+      }),
+    ).toEqual({
+      summary: 'Will Turner will follow up by +1 415 555 0100.',
+      actionItems: [{ title: 'Email will@example.com', assignee: 'Will Turner', priority: 2 }],
+      unknown: '[EMAIL_9]',
+      done: false,
+    });
+  });
+
+  it('keeps values other than names out of the CRM when asked', () => {
+    const redactor = createRedactor({ ...config, keepOutOfCrm: true }, ['Will Turner']);
+    const redacted = redactor.redact('Will Turner shares will@example.com; he is on sick leave.');
+
+    expect(redactor.restore(redacted)).toBe('Will Turner shares [redacted email]; he is on [redacted health].');
+  });
+
+  it('reports what it redacted', () => {
+    const redactor = createRedactor(config, ['Will Turner']);
+    expect(redactor.hasRedactions()).toBe(false);
+
+    redactor.redact('Will and Will Turner share will@example.com and ops@example.com, and will@example.com again.');
+
+    expect(redactor.hasRedactions()).toBe(true);
+    expect(redactor.getReport()).toEqual({
+      categories: config.categories,
+      redacted: { email: 2, person: 1 },
+      keptOutOfCrm: false,
+    });
+  });
+});
+
+describe('getRedactionConfig', () => {
+  it('redacts nothing by default', () => {
+    for (const name of ['PII_REDACTION', 'PII_ALLOWED_VALUES', 'PII_KEEP_OUT_OF_CRM']) {
+      vi.stubEnv(name, undefined);
+    }
+    expect(getRedactionConfig()).toEqual({ categories: [], allowedValues: [], keepOutOfCrm: false });
+  });
+
+  it('reads the categories, allowed values and CRM setting from the environment', () => {
+    vi.stubEnv('PII_REDACTION', 'Email, phone');
+    vi.stubEnv('PII_ALLOWED_VALUES', 'Support@Example.com, ,Acme  Inc');
+    vi.stubEnv('PII_KEEP_OUT_OF_CRM', 'true');
+
+    expect(getRedactionConfig()).toEqual({
+      categories: ['email', 'phone'],
+      allowedValues: ['support@example.com', 'acme inc'],
+      keepOutOfCrm: true,
+    });
+    expect(getRedactionConfig(false).keepOutOfCrm).toBe(false);
+  });
+
+  it('accepts "all"', () => {
+    vi.stubEnv('PII_REDACTION', 'all');
+    expect(getRedactionConfig().categories).toEqual(config.categories);
+  });
+
+  it('rejects an unknown category', () => {
+    vi.stubEnv('PII_REDACTION', 'email,address');
+    expect(() => getRedactionConfig()).toThrow('got "address"');
+  });
+});
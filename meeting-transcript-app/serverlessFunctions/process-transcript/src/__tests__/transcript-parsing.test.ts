@@ -0,0 +1,102 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { detectTranscriptFormat, parseTranscript } from '../transcript-parsing.js';
+
+const readFixture = (name: string): string => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+describe('parseTranscript', () => {
+  it.each([
+    ['meeting.vtt', 'webvtt'],
+    ['meeting.srt', 'srt'],
+    ['chat.txt', 'chat'],
+    ['otter.txt', 'otter'],
+    ['notes.txt', 'plain'],
+  ])('detects %s as %s', (fixture, format) => {
+    expect(detectTranscriptFormat(readFixture(fixture))).toBe(format);
+  });
+
+  it('reads WebVTT voice tags and drops repeated cues and caption noise', () => {
+    const parsed = parseTranscript(readFixture('meeting.vtt'));
+
+    expect(parsed.turns).toEqual([
+      { speaker: 'Anna Schmidt', timestamp: '00:00:01', text: "Thanks for joining. Let's review the rollout." },
+      { speaker: 'Ben Carter', timestamp: '00:00:07', text: "I'll send the pricing sheet by Friday." },
+      { speaker: 'Anna Schmidt', timestamp: '00:00:11', text: 'Great & please copy legal.' },
+    ]);
+    expect(parsed.speakers).toEqual(['Anna Schmidt', 'Ben Carter']);
+    expect(parsed.text).toBe(
+      [
+        "[00:00:01] Anna Schmidt: Thanks for joining. Let's review the rollout.",
+        "[00:00:07] Ben Carter: I'll send the pricing sheet by Friday.",
+        '[00:00:11] Anna Schmidt: Great & please copy legal.',
+      ].join('\n'),
+    );
+  });
+
+  it('reads SRT speaker labels and keeps unlabeled cues with the last speaker', () => {
+    const parsed = parseTranscript(readFixture('meeting.srt'));
+
+    expect(parsed.turns).toEqual([
+      { speaker: 'Anna Schmidt', timestamp: '00:00:01', text: 'Where are we on the contract?' },
+      { speaker: 'Ben Carter', timestamp: '00:00:03', text: 'Legal signed off yesterday. We can countersign this week.' },
+    ]);
+  });
+
+  it('reads chat logs, joining continuation lines and consecutive messages', () => {
+    const parsed = parseTranscript(readFixture('chat.txt'));
+
+    expect(parsed.turns).toEqual([
+      { speaker: 'Anna Schmidt', timestamp: '10:02:00', text: 'Morning all, quick sync on the renewal.' },
+      {
+        speaker: 'Ben Carter',
+        timestamp: '10:03:00',
+        text: 'I can draft the proposal today. and share it with finance before lunch. Also need the usage numbers.',
+      },
+      { speaker: 'Anna Schmidt', timestamp: '10:06:00', text: "I'll pull them by Thursday." },
+    ]);
+  });
+
+  it('reads Otter exports and drops the footer', () => {
+    const parsed = parseTranscript(readFixture('otter.txt'));
+
+    expect(parsed.turns).toEqual([
+      { speaker: 'Anna Schmidt', timestamp: '00:00:01', text: 'Thanks everyone. First item is the onboarding plan.' },
+      {
+        speaker: 'Ben Carter',
+        timestamp: '00:00:15',
+        text: "I'll book the kickoff call for next week. It should take about an hour.",
+      },
+      { speaker: 'Anna Schmidt', timestamp: '00:01:02', text: 'Sounds good.' },
+    ]);
+  });
+
+  it('keeps plain notes as they are, without speakers from "Agenda:"-style labels', () => {
+    const notes = readFixture('notes.txt');
+    const parsed = parseTranscript(notes);
+
+    expect(parsed).toEqual({ format: 'plain', turns: [{ text: notes }], speakers: [], text: notes });
+  });
+
+  it('does not turn note labels inside a chat log into speakers', () => {
+    const parsed = parseTranscript(
+      ['Anna: Can we ship on Monday?', 'Ben: Yes, after QA.', 'Action items: Ben runs the QA pass.'].join('\n'),
+    );
+
+    expect(parsed.format).toBe('chat');
+    expect(parsed.speakers).toEqual(['Anna', 'Ben']);
+    expect(parsed.turns.at(-1)).toEqual({ speaker: 'Ben', text: 'Yes, after QA. Action items: Ben runs the QA pass.' });
+  });
+
+  it('leaves generic speaker labels out of the speaker list', () => {
+    const parsed = parseTranscript('Speaker 1: Hello there.\nSpeaker 2: Hi.\nAnna: Welcome.');
+
+    expect(parsed.turns.map((turn) => turn.speaker)).toEqual(['Speaker 1', 'Speaker 2', 'Anna']);
+    expect(parsed.speakers).toEqual(['Anna']);
+  });
+
+  it('rejects captions without spoken text', () => {
+    expect(() => parseTranscript('WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.000\n[music]\n')).toThrow(
+      'Transcript looks like webvtt but contains no spoken text',
+    );
+  });
+});
@@ -0,0 +1,187 @@
+import { createHmac } from 'node:crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  getWebhookAuthConfig,
+  signWebhookBody,
+  verifyWebhookRequest,
+  type WebhookAuthConfig,
+} from '../webhook-auth.js';
+
+const NOW = Date.parse('2026-10-19T09:00:00.000Z');
+const TIMESTAMP = String(NOW / 1000);
+
+const config: WebhookAuthConfig = { signingSecrets: ['current-secret', 'previous-secret'], toleranceSeconds: 300 };
+
+const sign = (secret: string, timestamp: string, body: string): string =>
+  createHmac('sha256', secret).update(`${timestamp}:${body}`).digest('hex');
+
+// Each test signs its own body, because a signature that was accepted once is rejected as a replay.
+const signedRequest = (body: string, options: { secret?: string; timestamp?: string; prefix?: string } = {}) => {
+  const timestamp = options.timestamp ?? TIMESTAMP;
+  return {
+    headers: {
+      [SIGNATURE_HEADER]: `${options.prefix ?? ''}${sign(options.secret ?? 'current-secret', timestamp, body)}`,
+      [TIMESTAMP_HEADER]: timestamp,
+    },
+    signedBody: body,
+  };
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('verifyWebhookRequest', () => {
+  it('accepts a valid signature', () => {
+    expect(verifyWebhookRequest(signedRequest('{"id":"plain"}'), config, NOW)).toBe('signature');
+  });
+
+  it.each(['sha256=', 'SHA256='])('accepts a signature with the "%s" prefix', (prefix) => {
+    expect(verifyWebhookRequest(signedRequest(`{"id":"${prefix}"}`, { prefix }), config, NOW)).toBe('signature');
+  });
+
+  it('reads headers case-insensitively and takes the first of repeated values', () => {
+    const request = signedRequest('{"id":"headers"}');
+
+    expect(
+      verifyWebhookRequest(
+        {
+          headers: {
+            'X-Twenty-Webhook-Signature': [request.headers[SIGNATURE_HEADER] ?? '', 'other'],
+            'X-Twenty-Webhook-Timestamp': request.headers[TIMESTAMP_HEADER],
+          },
+          signedBody: request.signedBody,
+        },
+        config,
+        NOW,
+      ),
+    ).toBe('signature');
+  });
+
+  it('accepts a signature made with the previous secret during rotation', () => {
+    expect(verifyWebhookRequest(signedRequest('{"id":"rotated"}', { secret: 'previous-secret' }), config, NOW)).toBe(
+      'signature',
+    );
+  });
+
+  it('rejects a signature made with an unknown secret', () => {
+    expect(() => verifyWebhookRequest(signedRequest('{"id":"unknown"}', { secret: 'other' }), config, NOW)).toThrow(
+      'invalid signature',
+    );
+  });
+
+  it('rejects a body that does not match its signature', () => {
+    const request = { ...signedRequest('{"amount":1}'), signedBody: '{"amount":1000}' };
+
+    expect(() => verifyWebhookRequest(request, config, NOW)).toThrow('invalid signature');
+  });
+
+  it.each([
+    ['a second', String(NOW / 1000 - 1)],
+    ['the full tolerance', String(NOW / 1000 - 300)],
+    ['a millisecond timestamp', String(NOW - 1000)],
+  ])('accepts a timestamp %s old', (_description, timestamp) => {
+    expect(verifyWebhookRequest(signedRequest(`{"at":"${timestamp}"}`, { timestamp }), config, NOW)).toBe('signature');
+  });
+
+  it.each([
+    ['too old', String(NOW / 1000 - 301)],
+    ['too far in the future', String(NOW / 1000 + 301)],
+    ['not a number', '2026-10-19T09:00:00Z'],
+  ])('rejects a timestamp that is %s', (_description, timestamp) => {
+    expect(() => verifyWebhookRequest(signedRequest('{"id":"skew"}', { timestamp }), config, NOW)).toThrow(
+      'timestamp is outside the allowed window',
+    );
+  });
+
+  it('rejects a missing timestamp', () => {
+    const request = signedRequest('{"id":"no timestamp"}');
+
+    expect(() =>
+      verifyWebhookRequest({ ...request, headers: { [SIGNATURE_HEADER]: request.headers[SIGNATURE_HEADER] } }, config, NOW),
+    ).toThrow(`missing ${TIMESTAMP_HEADER} header`);
+  });
+
+  it('rejects a replayed request, also with a changed signature prefix', () => {
+    const request = signedRequest('{"id":"replay"}');
+    verifyWebhookRequest(request, config, NOW);
+
+    expect(() => verifyWebhookRequest(request, config, NOW + 1000)).toThrow('replay');
+    expect(() =>
+      verifyWebhookRequest(signedRequest('{"id":"replay"}', { prefix: 'sha256=' }), config, NOW + 1000),
+    ).toThrow('replay');
+  });
+
+  it('rejects a request without a signature when signing is configured', () => {
+    expect(() => verifyWebhookRequest({ signedBody: '{}', token: 'token' }, config, NOW)).toThrow(
+      `missing ${SIGNATURE_HEADER} header`,
+    );
+  });
+
+  it('accepts the legacy token only when it is enabled and matches', () => {
+    const legacyConfig: WebhookAuthConfig = { signingSecrets: [], toleranceSeconds: 300, legacyToken: 'token' };
+
+    expect(verifyWebhookRequest({ signedBody: '{}', token: 'token' }, legacyConfig, NOW)).toBe('legacy token');
+    expect(() => verifyWebhookRequest({ signedBody: '{}', token: 'wrong' }, legacyConfig, NOW)).toThrow(
+      'Invalid or missing token',
+    );
+    expect(() => verifyWebhookRequest({ signedBody: '{}' }, legacyConfig, NOW)).toThrow('Invalid or missing token');
+  });
+});
+
+describe('getWebhookAuthConfig', () => {
+  const clearEnv = () => {
+    for (const name of [
+      'WEBHOOK_SIGNING_SECRET',
+      'WEBHOOK_SIGNING_SECRET_PREVIOUS',
+      'WEBHOOK_ALLOW_LEGACY_TOKEN',
+      'WEBHOOK_SECRET_TOKEN',
+      'WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS',
+    ]) {
+      vi.stubEnv(name, undefined);
+    }
+  };
+
+  it('reads the current and previous secrets in that order', () => {
+    clearEnv();
+    vi.stubEnv('WEBHOOK_SIGNING_SECRET', 'current-secret');
+    vi.stubEnv('WEBHOOK_SIGNING_SECRET_PREVIOUS', 'previous-secret');
+    vi.stubEnv('WEBHOOK_SECRET_TOKEN', 'token');
+
+    expect(getWebhookAuthConfig()).toEqual(config);
+  });
+
+  it('uses the legacy token only when it is allowed', () => {
+    clearEnv();
+    vi.stubEnv('WEBHOOK_SECRET_TOKEN', 'token');
+    expect(() => getWebhookAuthConfig()).toThrow('Webhook authentication is not configured');
+
+    vi.stubEnv('WEBHOOK_ALLOW_LEGACY_TOKEN', 'TRUE');
+    expect(getWebhookAuthConfig()).toEqual({ signingSecrets: [], toleranceSeconds: 300, legacyToken: 'token' });
+  });
+
+  it.each(['0', '-5', '1.5', 'soon'])('rejects a tolerance of "%s"', (value) => {
+    clearEnv();
+    vi.stubEnv('WEBHOOK_SIGNING_SECRET', 'current-secret');
+    vi.stubEnv('WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS', value);
+
+    expect(() => getWebhookAuthConfig()).toThrow('WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS must be a positive integer');
+  });
+});
+
+describe('signWebhookBody', () => {
+  it('signs with the current secret so that the same check accepts it', () => {
+    vi.stubEnv('WEBHOOK_SIGNING_SECRET', 'current-secret');
+    vi.stubEnv('WEBHOOK_SIGNING_SECRET_PREVIOUS', 'previous-secret');
+    const body = '{"status":"completed"}';
+    const headers = signWebhookBody(body, NOW);
+
+    expect(headers).toEqual({
+      [SIGNATURE_HEADER]: `sha256=${sign('current-secret', TIMESTAMP, body)}`,
+      [TIMESTAMP_HEADER]: TIMESTAMP,
+    });
+    expect(verifyWebhookRequest({ headers, signedBody: body }, config, NOW)).toBe('signature');
+  });
+});
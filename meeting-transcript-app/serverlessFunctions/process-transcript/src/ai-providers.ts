@@ -0,0 +1,276 @@
+import axios from 'axios';
+import OpenAI from 'openai';
+import { withRetry } from './http-retry.js';
+import { getLogger } from './logger.js';
+
+export type AiProviderType = 'openai' | 'local' | 'anthropic';
+
+export type AiProviderConfig = {
+  type: AiProviderType;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+};
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type AiCompletion = {
+  content: string | null;
+  provider: string;
+};
+
+type ProviderReply = {
+  content: string | null;
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type AiClient = {
+  providers: string[];
+  complete: (messages: ChatMessage[]) => Promise<AiCompletion>;
+};
+
+type AiProvider = {
+  name: string;
+  type: AiProviderType;
+  model: string;
+  complete: (messages: ChatMessage[]) => Promise<ProviderReply>;
+};
+
+const PROVIDER_TYPES: AiProviderType[] = ['openai', 'local', 'anthropic'];
+const DEFAULT_MODEL = 'openai/gpt-oss-20b';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const parseNumber = (
+  value: string | undefined,
+  fallback: number,
+  name: string,
+  isValid: (parsed: number) => boolean,
+): number => {
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || !isValid(parsed)) {
+    throw new Error(`${name} has an invalid value "${value}"`);
+  }
+  return parsed;
+};
+
+const parseProviderType = (value: unknown, name: string): AiProviderType => {
+  const type = typeof value === 'string' && value ? value.toLowerCase() : 'openai';
+  if (!PROVIDER_TYPES.includes(type as AiProviderType)) {
+    throw new Error(`${name} must be one of ${PROVIDER_TYPES.join(', ')}, got "${String(value)}"`);
+  }
+  return type as AiProviderType;
+};
+
+const validateProvider = (config: AiProviderConfig, name: string): AiProviderConfig => {
+  if (config.type !== 'local' && !config.apiKey) {
+    throw new Error(`${name} needs an API key for provider type "${config.type}"`);
+  }
+  return config;
+};
+
+const parseFallbackProviders = (
+  value: string | undefined,
+  defaults: Pick<AiProviderConfig, 'temperature' | 'maxTokens' | 'timeoutMs'>,
+): AiProviderConfig[] => {
+  if (!value) {
+    return [];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(value);
+  } catch {
+    throw new Error('AI_FALLBACK_PROVIDERS must be a JSON array');
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error('AI_FALLBACK_PROVIDERS must be a JSON array');
+  }
+
+  return entries.map((entry, index) => {
+    const name = `AI_FALLBACK_PROVIDERS[${index}]`;
+    const fields = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    if (typeof fields.model !== 'string' || !fields.model) {
+      throw new Error(`${name}.model is required`);
+    }
+    for (const field of ['temperature', 'maxTokens', 'timeoutMs'] as const) {
+      if (fields[field] !== undefined && typeof fields[field] !== 'number') {
+        throw new Error(`${name}.${field} must be a number`);
+      }
+    }
+
+    return validateProvider(
+      {
+        type: parseProviderType(fields.type, `${name}.type`),
+        model: fields.model,
+        ...(typeof fields.apiKey === 'string' && fields.apiKey && { apiKey: fields.apiKey }),
+        ...(typeof fields.baseUrl === 'string' && fields.baseUrl && { baseUrl: fields.baseUrl }),
+        temperature: (fields.temperature as number | undefined) ?? defaults.temperature,
+        maxTokens: (fields.maxTokens as number | undefined) ?? defaults.maxTokens,
+        timeoutMs: (fields.timeoutMs as number | undefined) ?? defaults.timeoutMs,
+      },
+      name,
+    );
+  });
+};
+
+export const getAiProviderConfigs = (): AiProviderConfig[] => {
+  const defaults = {
+    temperature: parseNumber(process.env.AI_TEMPERATURE, 0.3, 'AI_TEMPERATURE', (n) => n >= 0 && n <= 2),
+    maxTokens: parseNumber(process.env.AI_MAX_TOKENS, 4096, 'AI_MAX_TOKENS', (n) => Number.isInteger(n) && n > 0),
+    timeoutMs: parseNumber(process.env.AI_TIMEOUT_MS, 60000, 'AI_TIMEOUT_MS', (n) => Number.isInteger(n) && n > 0),
+  };
+
+  const primary = validateProvider(
+    {
+      type: parseProviderType(process.env.AI_PROVIDER_TYPE, 'AI_PROVIDER_TYPE'),
+      model: process.env.AI_MODEL || DEFAULT_MODEL,
+      ...(process.env.AI_PROVIDER_API_KEY && { apiKey: process.env.AI_PROVIDER_API_KEY }),
+      ...(process.env.AI_PROVIDER_API_BASE_URL && { baseUrl: process.env.AI_PROVIDER_API_BASE_URL }),
+      ...defaults,
+    },
+    'AI_PROVIDER_API_KEY',
+  );
+
+  return [primary, ...parseFallbackProviders(process.env.AI_FALLBACK_PROVIDERS, defaults)];
+};
+
+const createOpenAiCompatibleProvider = (config: AiProviderConfig): AiProvider => {
+  const client = new OpenAI({
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseUrl || (config.type === 'local' ? DEFAULT_LOCAL_BASE_URL : undefined),
+    timeout: config.timeoutMs,
+    maxRetries: 0,
+  });
+
+  return {
+    name: `${config.type}:${config.model}`,
+    type: config.type,
+    model: config.model,
+    complete: async (messages) => {
+      const completion = await withRetry(
+        () =>
+          client.chat.completions.create({
+            model: config.model,
+            messages,
+            response_format: { type: 'json_object' },
+            temperature: config.temperature,
+            max_tokens: config.maxTokens,
+          }),
+        { label: `AI provider ${config.type}:${config.model}`, retryTimeouts: false },
+      );
+      return {
+        content: completion.choices[0]?.message?.content ?? null,
+        inputTokens: completion.usage?.prompt_tokens ?? 0,
+        outputTokens: completion.usage?.completion_tokens ?? 0,
+      };
+    },
+  };
+};
+
+const createAnthropicProvider = (config: AiProviderConfig): AiProvider => ({
+  name: `anthropic:${config.model}`,
+  type: config.type,
+  model: config.model,
+  complete: async (messages) => {
+    const system = messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    try {
+      const response = await withRetry(
+        () =>
+          axios.post(
+            `${(config.baseUrl || DEFAULT_ANTHROPIC_BASE_URL).replace(/\/$/, '')}/v1/messages`,
+            {
+              model: config.model,
+              max_tokens: config.maxTokens,
+              temperature: config.temperature,
+              ...(system && { system }),
+              messages: messages.filter((message) => message.role !== 'system'),
+            },
+            {
+              headers: {
+                'Content-Type': 'application/json',
+                'x-api-key': config.apiKey,
+                'anthropic-version': ANTHROPIC_VERSION,
+              },
+              timeout: config.timeoutMs,
+            },
+          ),
+        { label: `AI provider anthropic:${config.model}`, retryTimeouts: false },
+      );
+
+      const blocks: { type: string; text?: string }[] = response.data?.content || [];
+      const text = blocks
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text || '')
+        .join('');
+      return {
+        content: text || null,
+        inputTokens: response.data?.usage?.input_tokens ?? 0,
+        outputTokens: response.data?.usage?.output_tokens ?? 0,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const errorMessage = error.response?.data
+          ? JSON.stringify(error.response.data, null, 2)
+          : error.message;
+        throw new Error(`Anthropic request failed: ${errorMessage}`);
+      }
+      throw error;
+    }
+  },
+});
+
+const createProvider = (config: AiProviderConfig): AiProvider =>
+  config.type === 'anthropic' ? createAnthropicProvider(config) : createOpenAiCompatibleProvider(config);
+
+export const createAiClient = (configs: AiProviderConfig[]): AiClient => {
+  const providers = configs.map(createProvider);
+
+  return {
+    providers: providers.map((provider) => provider.name),
+    complete: async (messages) => {
+      const failures: string[] = [];
+
+      const logger = getLogger();
+      for (const provider of providers) {
+        try {
+          const reply = await provider.complete(messages);
+          logger.recordAiUsage({
+            provider: provider.type,
+            model: provider.model,
+            inputTokens: reply.inputTokens,
+            outputTokens: reply.outputTokens,
+          });
+          logger.debug('AI request completed', {
+            provider: provider.name,
+            inputTokens: reply.inputTokens,
+            outputTokens: reply.outputTokens,
+            ...(failures.length > 0 && { fallback: true }),
+          });
+          return { content: reply.content, provider: provider.name };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logger.warn('AI provider failed', { provider: provider.name, error: errorMessage });
+          failures.push(`${provider.name}: ${errorMessage}`);
+        }
+      }
+
+      throw new Error(`All AI providers failed. ${failures.join(' | ')}`);
+    },
+  };
+};
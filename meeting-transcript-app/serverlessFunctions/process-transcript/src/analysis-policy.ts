@@ -0,0 +1,106 @@
+import { matchName, type DirectoryEntry } from './directory.js';
+import type { Participant } from './participants.js';
+
+export type InjectionFlag = {
+  source: 'transcript' | 'analysis';
+  rule: string;
+  excerpt: string;
+  line?: number;
+};
+
+export type PolicyConfig = {
+  maxTasks: number;
+};
+
+type InjectionRule = {
+  rule: string;
+  pattern: RegExp;
+};
+
+const DEFAULT_MAX_TASKS = 30;
+const MAX_EXCERPT_LENGTH = 160;
+
+// Phrases that address the AI instead of the people in the meeting. A match holds back the run's
+// tasks until the caller approves them; the prompt already tells the AI to treat the transcript as data.
+const INJECTION_RULES: InjectionRule[] = [
+  {
+    rule: 'instruction override',
+    pattern: /\b(?:ignore|disregard|forget|override)\b.{0,40}\b(?:instructions?|prompts?|rules|guidelines)\b/i,
+  },
+  {
+    rule: 'role change',
+    pattern: /\byou are now (?:an?|the|my) (?:ai|assistant|model|system|bot)\b|\bfrom now on,? (?:you|the (?:ai|assistant|model))\b/i,
+  },
+  {
+    rule: 'prompt reference',
+    pattern: /\b(?:system prompt|developer message|jailbreak|prompt injection)\b|\b(?:the|dear) (?:ai|assistant|model|llm|chatbot)\b.{0,30}\b(?:must|should|will|needs? to)\b/i,
+  },
+  {
+    rule: 'bulk assignment',
+    pattern: /\bassign (?:all|every|each)\b.{0,30}\b(?:tasks?|action items?)\b|\b(?:all|every) (?:tasks?|action items?)\b.{0,20}\b(?:assigned|go) to\b/i,
+  },
+  {
+    rule: 'output override',
+    pattern: /\b(?:respond|reply|output|return|answer)\b.{0,20}\b(?:only|exactly|with the following)\b.{0,30}\b(?:json|text|this)\b/i,
+  },
+  {
+    rule: 'delimiter',
+    pattern: /<\/?\s*(?:transcript|system|instructions?|assistant|user)\b[^>]*>|```/i,
+  },
+];
+
+const truncate = (text: string): string =>
+  text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : text;
+
+export const getPolicyConfig = (): PolicyConfig => {
+  const value = process.env.MAX_TASKS_PER_RUN;
+  if (!value) {
+    return { maxTasks: DEFAULT_MAX_TASKS };
+  }
+  const maxTasks = Number(value);
+  if (!Number.isInteger(maxTasks) || maxTasks < 1) {
+    throw new Error(`MAX_TASKS_PER_RUN must be a positive integer, got "${value}"`);
+  }
+  return { maxTasks };
+};
+
+// Combines the lines matched here with the passages the AI reported in suspectedInstructions.
+export const collectInjectionFlags = (transcript: string, suspectedInstructions: string[]): InjectionFlag[] => [
+  ...transcript.split(/\r?\n/).flatMap((line, index) =>
+    INJECTION_RULES.filter(({ pattern }) => pattern.test(line)).map(({ rule }) => ({
+      source: 'transcript' as const,
+      rule,
+      excerpt: truncate(line.trim()),
+      line: index + 1,
+    })),
+  ),
+  ...suspectedInstructions.map((text) => ({
+    source: 'analysis' as const,
+    rule: 'reported by analysis',
+    excerpt: truncate(text),
+  })),
+];
+
+// When the meeting's participants are known from the payload or the calendar event, only they can
+// be assigned tasks, so that a name dictated in the transcript cannot pull in anyone else from the
+// workspace. Speakers are not trusted for this. Without participants, the workspace member lookup
+// is the only check. A name that fits several participants is rejected rather than guessed.
+export const createAssigneePolicy = (participants: Participant[]): ((assignee: string) => boolean) => {
+  const entries: DirectoryEntry[] = participants.map((participant, index) => {
+    const [firstName = '', ...lastNames] = participant.name.trim().split(/\s+/);
+    return {
+      id: String(index),
+      firstName,
+      lastName: lastNames.join(' '),
+      emails: participant.email ? [participant.email] : [],
+    };
+  });
+  if (entries.length === 0) {
+    return () => true;
+  }
+
+  return (assignee) => {
+    const match = matchName(assignee, 'person', entries);
+    return match.status === 'matched';
+  };
+};
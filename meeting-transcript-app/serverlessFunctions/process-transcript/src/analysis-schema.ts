@@ -0,0 +1,293 @@
+export type ActionItemClassification = 'new' | 'update' | 'completed';
+
+export type TaskPriority = 'urgent' | 'high' | 'medium' | 'low';
+
+export type TaskProgress = 'todo' | 'in_progress';
+
+export type ActionItem = {
+  title: string;
+  description: string;
+  assignee?: string;
+  dueDateExpression?: string;
+  timestamp?: string;
+  companies?: string[];
+  priority?: TaskPriority;
+  status?: TaskProgress;
+  classification?: ActionItemClassification;
+  existingTaskId?: string;
+};
+
+export type Commitment = {
+  person: string;
+  commitment: string;
+  dueDateExpression?: string;
+};
+
+export type AnalysisResult = {
+  summary: string;
+  keyPoints: string[];
+  decisions: string[];
+  risks: string[];
+  openQuestions: string[];
+  attendees: string[];
+  nextMeeting?: string;
+  // Passages of the transcript that tried to instruct the AI, as reported by the AI.
+  suspectedInstructions: string[];
+  actionItems: ActionItem[];
+  commitments: Commitment[];
+  companies: string[];
+};
+
+export type AnalysisValidation =
+  | { valid: true; result: AnalysisResult; warnings: string[] }
+  | { valid: false; errors: string[]; warnings: string[] };
+
+type FieldRecord = Record<string, unknown>;
+
+const TIMESTAMP_PATTERN = /^\d{1,2}:\d{2}(:\d{2})?$/;
+const CLASSIFICATIONS: ActionItemClassification[] = ['new', 'update', 'completed'];
+export const TASK_PRIORITIES: TaskPriority[] = ['urgent', 'high', 'medium', 'low'];
+export const TASK_PROGRESS_VALUES: TaskProgress[] = ['todo', 'in_progress'];
+const MAX_TITLE_LENGTH = 200;
+const MAX_NAME_LENGTH = 100;
+const MAX_DUE_DATE_EXPRESSION_LENGTH = 80;
+
+const isRecord = (value: unknown): value is FieldRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+const readStringList = (
+  value: unknown,
+  path: string,
+  warnings: string[],
+): string[] => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    warnings.push(`${path} is not an array, ignoring it`);
+    return [];
+  }
+
+  const items: string[] = [];
+  for (const [index, item] of value.entries()) {
+    const text = readText(item);
+    if (text) {
+      items.push(text);
+    } else {
+      warnings.push(`${path}[${index}] is not a non-empty string, dropping it`);
+    }
+  }
+  return items;
+};
+
+const readOptionalName = (
+  value: unknown,
+  path: string,
+  warnings: string[],
+): string | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const text = readText(value);
+  if (!text || text.length > MAX_NAME_LENGTH) {
+    warnings.push(`${path} is not a valid name, ignoring it`);
+    return undefined;
+  }
+  return text;
+};
+
+const readDueDateExpression = (
+  value: unknown,
+  path: string,
+  warnings: string[],
+): string | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const text = readText(value);
+  if (!text || text.length > MAX_DUE_DATE_EXPRESSION_LENGTH || !/[\p{L}\p{N}]/u.test(text)) {
+    warnings.push(`${path} is not a date expression, ignoring it`);
+    return undefined;
+  }
+  return text;
+};
+
+const readOption = <T extends string>(
+  value: unknown,
+  options: T[],
+  path: string,
+  warnings: string[],
+): T | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const option = typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s-]+/g, '_') : '';
+  if (!options.includes(option as T)) {
+    warnings.push(`${path} is not one of ${options.join(', ')}, ignoring it`);
+    return undefined;
+  }
+  return option as T;
+};
+
+const readActionItem = (
+  value: unknown,
+  path: string,
+  warnings: string[],
+): ActionItem | null => {
+  if (!isRecord(value)) {
+    warnings.push(`${path} is not an object, dropping it`);
+    return null;
+  }
+
+  const title = readText(value.title);
+  if (!title) {
+    warnings.push(`${path}.title is missing, dropping the action item`);
+    return null;
+  }
+  if (title.length > MAX_TITLE_LENGTH) {
+    warnings.push(`${path}.title is longer than ${MAX_TITLE_LENGTH} characters, truncating it`);
+  }
+
+  let description = readText(value.description);
+  if (!description) {
+    warnings.push(`${path}.description is missing, using the title instead`);
+    description = title;
+  }
+
+  const assignee = readOptionalName(value.assignee, `${path}.assignee`, warnings);
+  const dueDateExpression = readDueDateExpression(value.dueDateExpression, `${path}.dueDateExpression`, warnings);
+
+  let timestamp = readText(value.timestamp);
+  if (timestamp && !TIMESTAMP_PATTERN.test(timestamp)) {
+    warnings.push(`${path}.timestamp is not HH:MM:SS, ignoring it`);
+    timestamp = undefined;
+  }
+
+  const companies = readStringList(value.companies, `${path}.companies`, warnings);
+  const priority = readOption(value.priority, TASK_PRIORITIES, `${path}.priority`, warnings);
+  const status = readOption(value.status, TASK_PROGRESS_VALUES, `${path}.status`, warnings);
+
+  let classification: ActionItemClassification | undefined;
+  if (CLASSIFICATIONS.includes(value.classification as ActionItemClassification)) {
+    classification = value.classification as ActionItemClassification;
+  } else if (value.classification !== undefined && value.classification !== null) {
+    warnings.push(`${path}.classification is not new, update or completed, treating it as new`);
+  }
+
+  const existingTaskId = readText(value.existingTaskId);
+  if (classification && classification !== 'new' && !existingTaskId) {
+    warnings.push(`${path} is classified as ${classification} without an existingTaskId, treating it as new`);
+    classification = 'new';
+  }
+
+  return {
+    title: title.slice(0, MAX_TITLE_LENGTH),
+    description,
+    ...(assignee && { assignee }),
+    ...(dueDateExpression && { dueDateExpression }),
+    ...(timestamp && { timestamp }),
+    ...(companies.length > 0 && { companies }),
+    ...(priority && { priority }),
+    ...(status && { status }),
+    ...(classification && { classification }),
+    ...(classification && classification !== 'new' && existingTaskId && { existingTaskId }),
+  };
+};
+
+const readCommitment = (
+  value: unknown,
+  path: string,
+  warnings: string[],
+): Commitment | null => {
+  if (!isRecord(value)) {
+    warnings.push(`${path} is not an object, dropping it`);
+    return null;
+  }
+
+  const person = readOptionalName(value.person, `${path}.person`, warnings);
+  const commitment = readText(value.commitment);
+  if (!person || !commitment) {
+    warnings.push(`${path} needs both a person and a commitment, dropping it`);
+    return null;
+  }
+
+  const dueDateExpression = readDueDateExpression(value.dueDateExpression, `${path}.dueDateExpression`, warnings);
+
+  return {
+    person,
+    commitment,
+    ...(dueDateExpression && { dueDateExpression }),
+  };
+};
+
+export const validateAnalysisResult = (value: unknown): AnalysisValidation => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isRecord(value)) {
+    return { valid: false, errors: ['The response must be a JSON object'], warnings };
+  }
+
+  const summary = readText(value.summary);
+  if (!summary) {
+    errors.push('"summary" must be a non-empty string');
+  }
+  for (const field of ['keyPoints', 'actionItems', 'commitments'] as const) {
+    if (!Array.isArray(value[field])) {
+      errors.push(`"${field}" must be an array`);
+    }
+  }
+  if (!summary || errors.length > 0) {
+    return { valid: false, errors, warnings };
+  }
+
+  const actionItems = (value.actionItems as unknown[])
+    .map((item, index) => readActionItem(item, `actionItems[${index}]`, warnings))
+    .filter((item): item is ActionItem => item !== null);
+  const commitments = (value.commitments as unknown[])
+    .map((item, index) => readCommitment(item, `commitments[${index}]`, warnings))
+    .filter((item): item is Commitment => item !== null);
+  const nextMeeting = readDueDateExpression(value.nextMeeting, 'nextMeeting', warnings);
+
+  return {
+    valid: true,
+    result: {
+      summary,
+      keyPoints: readStringList(value.keyPoints, 'keyPoints', warnings),
+      decisions: readStringList(value.decisions, 'decisions', warnings),
+      risks: readStringList(value.risks, 'risks', warnings),
+      openQuestions: readStringList(value.openQuestions, 'openQuestions', warnings),
+      attendees: readStringList(value.attendees, 'attendees', warnings),
+      ...(nextMeeting && { nextMeeting }),
+      suspectedInstructions: readStringList(value.suspectedInstructions, 'suspectedInstructions', warnings),
+      actionItems,
+      commitments,
+      companies: readStringList(value.companies, 'companies', warnings),
+    },
+    warnings,
+  };
+};
+
+export const parseAnalysisResult = (content: string | null | undefined): AnalysisValidation => {
+  if (!content) {
+    return { valid: false, errors: ['The response was empty'], warnings: [] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    // Only the position is kept: the parser's message quotes part of the reply, which can hold transcript text.
+    const position = error instanceof Error ? /position (\d+)/.exec(error.message)?.[1] : undefined;
+    return {
+      valid: false,
+      errors: [`The response is not valid JSON${position ? ` (error at position ${position})` : ''}`],
+      warnings: [],
+    };
+  }
+
+  return validateAnalysisResult(parsed);
+};
@@ -0,0 +1,193 @@
+import axios from 'axios';
+import { type Directory, type DirectoryEntry, type NameResolutionStatus } from './directory.js';
+import { getLogger } from './logger.js';
+import { requestTwenty, type RecordTarget, type RecordTargetKind } from './twenty-api.js';
+
+// Who the AI assigns when several people work on one task: the person doing the final step
+// (reviewer, approver, coordinator) or the person doing the work itself.
+export type AssignmentRule = 'final-step' | 'doer';
+
+export type AssignmentFallback = 'organizer' | 'account-owner' | 'default-member';
+
+export type AssignmentConfig = {
+  rule: AssignmentRule;
+  fallbacks: AssignmentFallback[];
+  defaultMemberId?: string;
+  assignExternalToOwner: boolean;
+};
+
+export type UnassignedReason =
+  | 'no assignee'
+  | 'not a participant'
+  | 'external person'
+  | 'ambiguous'
+  | 'low confidence'
+  | 'not found'
+  | 'lookup failed';
+
+export type FallbackAssignment = {
+  fallback: AssignmentFallback;
+  member: DirectoryEntry;
+};
+
+export type FallbackRequest = {
+  targets: RecordTarget[];
+  // Set when the assignee is a person in the CRM rather than a workspace member.
+  externalPersonId?: string;
+};
+
+export type FallbackAssigner = (request: FallbackRequest) => Promise<FallbackAssignment | null>;
+
+const ASSIGNMENT_RULES: AssignmentRule[] = ['final-step', 'doer'];
+const ASSIGNMENT_FALLBACKS: AssignmentFallback[] = ['organizer', 'account-owner', 'default-member'];
+
+const UNASSIGNED_REASONS: Record<Exclude<NameResolutionStatus, 'matched'>, UnassignedReason> = {
+  ambiguous: 'ambiguous',
+  low_confidence: 'low confidence',
+  not_found: 'not found',
+  lookup_failed: 'lookup failed',
+};
+
+// Account owners are kept on companies; people and opportunities use their company's.
+const ACCOUNT_OWNER_QUERIES: Record<RecordTargetKind, { connection: string; inputType: string; fields: string }> = {
+  person: { connection: 'people', inputType: 'PersonFilterInput', fields: 'id company { accountOwnerId }' },
+  company: { connection: 'companies', inputType: 'CompanyFilterInput', fields: 'id accountOwnerId' },
+  opportunity: { connection: 'opportunities', inputType: 'OpportunityFilterInput', fields: 'id company { accountOwnerId }' },
+};
+
+export const getUnassignedReason = (status: NameResolutionStatus): UnassignedReason | null =>
+  status === 'matched' ? null : UNASSIGNED_REASONS[status];
+
+const parseFallbacks = (value: string | undefined): AssignmentFallback[] => {
+  if (value === undefined || value.trim() === '' || value.trim().toLowerCase() === 'none') {
+    return [];
+  }
+
+  return value.split(',').map((entry) => {
+    const fallback = entry.trim().toLowerCase();
+    if (!ASSIGNMENT_FALLBACKS.includes(fallback as AssignmentFallback)) {
+      throw new Error(`ASSIGNMENT_FALLBACK must be "none" or a comma-separated list of ${ASSIGNMENT_FALLBACKS.join(', ')}, got "${entry.trim()}"`);
+    }
+    return fallback as AssignmentFallback;
+  });
+};
+
+export const getAssignmentConfig = (): AssignmentConfig => {
+  const rule = (process.env.ASSIGNMENT_RULE || 'final-step').trim().toLowerCase();
+  if (!ASSIGNMENT_RULES.includes(rule as AssignmentRule)) {
+    throw new Error(`ASSIGNMENT_RULE must be one of ${ASSIGNMENT_RULES.join(', ')}, got "${rule}"`);
+  }
+
+  const fallbacks = parseFallbacks(process.env.ASSIGNMENT_FALLBACK);
+  const defaultMemberId = process.env.DEFAULT_ASSIGNEE_ID?.trim();
+  if (fallbacks.includes('default-member') && !defaultMemberId) {
+    throw new Error('ASSIGNMENT_FALLBACK includes default-member, but DEFAULT_ASSIGNEE_ID is not set');
+  }
+
+  return {
+    rule: rule as AssignmentRule,
+    fallbacks,
+    ...(defaultMemberId && { defaultMemberId }),
+    assignExternalToOwner: (process.env.ASSIGN_EXTERNAL_COMMITMENTS_TO_OWNER || '').toLowerCase() === 'true',
+  };
+};
+
+const loadAccountOwner = async (target: RecordTarget): Promise<string | null> => {
+  const query = ACCOUNT_OWNER_QUERIES[target.kind];
+  try {
+    const response = await requestTwenty('post', '/graphql', {
+      query: `
+        query GetAccountOwner($filter: ${query.inputType}) {
+          ${query.connection}(filter: $filter, first: 1) {
+            edges {
+              node {
+                ${query.fields}
+              }
+            }
+          }
+        }
+      `,
+      variables: { filter: { id: { eq: target.id } } },
+    });
+    const node: { accountOwnerId?: string | null; company?: { accountOwnerId?: string | null } | null } | undefined =
+      response.data?.data?.[query.connection]?.edges?.[0]?.node;
+    return node?.accountOwnerId ?? node?.company?.accountOwnerId ?? null;
+  } catch (error) {
+    const errorMessage = axios.isAxiosError(error) && error.response?.data
+      ? JSON.stringify(error.response.data, null, 2)
+      : error instanceof Error ? error.message : String(error);
+    getLogger().warn('Failed to load account owner, skipping it', { kind: target.kind, id: target.id, error: errorMessage });
+    return null;
+  }
+};
+
+// Tries the configured fallbacks in order for a task whose assignee could not be resolved. A task
+// promised by someone outside the workspace stays unassigned unless ASSIGN_EXTERNAL_COMMITMENTS_TO_OWNER
+// is set; then it goes to that person's account owner, or to the fallbacks when there is none. Owners
+// that are not workspace members, e.g. a stale DEFAULT_ASSIGNEE_ID, are skipped.
+export const createFallbackAssigner = (
+  config: AssignmentConfig,
+  organizerId: string | undefined,
+  directory: Directory,
+): FallbackAssigner => {
+  const accountOwners = new Map<string, Promise<string | null>>();
+  const getAccountOwner = (target: RecordTarget): Promise<string | null> => {
+    const key = `${target.kind}:${target.id}`;
+    let owner = accountOwners.get(key);
+    if (!owner) {
+      owner = loadAccountOwner(target);
+      accountOwners.set(key, owner);
+    }
+    return owner;
+  };
+
+  const findAccountOwner = async (targets: RecordTarget[]): Promise<string | null> => {
+    for (const target of targets) {
+      const owner = await getAccountOwner(target);
+      if (owner) {
+        return owner;
+      }
+    }
+    return null;
+  };
+
+  const toAssignment = async (
+    fallback: AssignmentFallback,
+    workspaceMemberId: string | null | undefined,
+  ): Promise<FallbackAssignment | null> => {
+    if (!workspaceMemberId) {
+      return null;
+    }
+    const member = await directory.findWorkspaceMember(workspaceMemberId);
+    if (!member) {
+      getLogger().warn('Fallback owner is not a workspace member, skipping it', { fallback, workspaceMemberId });
+      return null;
+    }
+    return { fallback, member };
+  };
+
+  return async ({ targets, externalPersonId }) => {
+    if (externalPersonId) {
+      if (!config.assignExternalToOwner) {
+        return null;
+      }
+      const assignment = await toAssignment('account-owner', await getAccountOwner({ kind: 'person', id: externalPersonId }));
+      if (assignment) {
+        return assignment;
+      }
+    }
+
+    for (const fallback of config.fallbacks) {
+      const workspaceMemberId = fallback === 'organizer'
+        ? organizerId
+        : fallback === 'account-owner'
+          ? await findAccountOwner(targets)
+          : config.defaultMemberId;
+      const assignment = await toAssignment(fallback, workspaceMemberId);
+      if (assignment) {
+        return assignment;
+      }
+    }
+    return null;
+  };
+};
@@ -0,0 +1,201 @@
+import { randomUUID } from 'node:crypto';
+
+export type TextStyles = {
+  bold?: true;
+  italic?: true;
+  code?: true;
+};
+
+export type StyledText = {
+  type: 'text';
+  text: string;
+  styles: TextStyles;
+};
+
+export type InlineContent =
+  | StyledText
+  | {
+    type: 'link';
+    href: string;
+    content: StyledText[];
+  };
+
+export type BlockType = 'paragraph' | 'heading' | 'bulletListItem' | 'numberedListItem' | 'checkListItem';
+
+export type Block = {
+  id: string;
+  type: BlockType;
+  props: Record<string, string | number | boolean>;
+  content: InlineContent[];
+  children: Block[];
+};
+
+// A name in the text that links to a CRM record, e.g. a participant or an assignee. Only full names
+// are linked, matched case-sensitively, so that "Will" or "May" never turn every "will" into a link.
+export type Mention = {
+  name: string;
+  href: string;
+};
+
+const DEFAULT_PROPS = { textColor: 'default', backgroundColor: 'default', textAlignment: 'left' };
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const CHECK_LIST_PATTERN = /^[-*]\s+\[([ xX])\]\s+(.*)$/;
+const BULLET_LIST_PATTERN = /^[-*]\s+(.*)$/;
+const NUMBERED_LIST_PATTERN = /^\d+[.)]\s+(.*)$/;
+const SEPARATOR_PATTERN = /^(-{3,}|\*{3,}|_{3,})$/;
+
+// Bold before italic, so that "**" is not read as two empty italic markers.
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(.+?)\*|`(.+?)`/g;
+const LINK_PATTERN = /\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const createBlock = (
+  type: BlockType,
+  content: InlineContent[],
+  props: Record<string, string | number | boolean> = {},
+): Block => ({
+  id: randomUUID(),
+  type,
+  props: { ...DEFAULT_PROPS, ...props },
+  content,
+  children: [],
+});
+
+const parseStyledText = (markdown: string, styles: TextStyles = {}): StyledText[] => {
+  const texts: StyledText[] = [];
+  let position = 0;
+
+  for (const match of markdown.matchAll(INLINE_PATTERN)) {
+    if (match.index > position) {
+      texts.push({ type: 'text', text: markdown.slice(position, match.index), styles });
+    }
+    const [, bold, italic, code] = match;
+    if (bold !== undefined) {
+      texts.push(...parseStyledText(bold, { ...styles, bold: true }));
+    } else if (italic !== undefined) {
+      texts.push(...parseStyledText(italic, { ...styles, italic: true }));
+    } else {
+      texts.push({ type: 'text', text: code ?? '', styles: { ...styles, code: true } });
+    }
+    position = match.index + match[0].length;
+  }
+
+  if (position < markdown.length) {
+    texts.push({ type: 'text', text: markdown.slice(position), styles });
+  }
+  return texts;
+};
+
+const linkMentions = (
+  texts: StyledText[],
+  mentionPattern: RegExp | null,
+  hrefs: Map<string, string>,
+  linked: Set<string>,
+): InlineContent[] => {
+  if (!mentionPattern) {
+    return texts;
+  }
+
+  return texts.flatMap((text): InlineContent[] => {
+    if (text.styles.code) {
+      return [text];
+    }
+    const parts: InlineContent[] = [];
+    let position = 0;
+    for (const match of text.text.matchAll(mentionPattern)) {
+      const href = hrefs.get(match[0]);
+      if (!href || linked.has(match[0])) {
+        continue;
+      }
+      linked.add(match[0]);
+      if (match.index > position) {
+        parts.push({ ...text, text: text.text.slice(position, match.index) });
+      }
+      parts.push({ type: 'link', href, content: [{ ...text, text: match[0] }] });
+      position = match.index + match[0].length;
+    }
+    if (position < text.text.length) {
+      parts.push({ ...text, text: text.text.slice(position) });
+    }
+    return parts;
+  });
+};
+
+// Each name is linked at its first occurrence only; linked is shared by all blocks of a document.
+const parseInlineContent = (markdown: string, mentions: Mention[], linked: Set<string>): InlineContent[] => {
+  const hrefs = new Map(
+    mentions
+      .map((mention) => ({ ...mention, name: mention.name.trim().replace(/\s+/g, ' ') }))
+      .filter((mention) => mention.name.includes(' '))
+      .map((mention) => [mention.name, mention.href]),
+  );
+  // Longest names first, so that "Brian Chesky Jr" wins over "Brian Chesky".
+  const names = [...hrefs.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const mentionPattern = names.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.join('|')})(?![\\p{L}\\p{N}])`, 'gu')
+    : null;
+
+  const content: InlineContent[] = [];
+  let position = 0;
+  for (const match of markdown.matchAll(LINK_PATTERN)) {
+    content.push(...linkMentions(parseStyledText(markdown.slice(position, match.index)), mentionPattern, hrefs, linked));
+    content.push({ type: 'link', href: match[2] ?? '', content: parseStyledText(match[1] ?? '') });
+    position = match.index + match[0].length;
+  }
+  content.push(...linkMentions(parseStyledText(markdown.slice(position)), mentionPattern, hrefs, linked));
+
+  return content.filter((item) => item.type === 'link' || item.text !== '');
+};
+
+// Converts the markdown this function writes (headings, lists, checklists, emphasis and links)
+// into BlockNote blocks, so that the Twenty editor shows the same structure as the markdown.
+export const markdownToBlockNote = (markdown: string, mentions: Mention[] = []): Block[] => {
+  const blocks: Block[] = [];
+  const linked = new Set<string>();
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(createBlock('paragraph', parseInlineContent(paragraph.join('\n'), mentions, linked)));
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const heading = HEADING_PATTERN.exec(line);
+    const checkListItem = CHECK_LIST_PATTERN.exec(line);
+    const bulletListItem = BULLET_LIST_PATTERN.exec(line);
+    const numberedListItem = NUMBERED_LIST_PATTERN.exec(line);
+
+    if (line === '') {
+      flushParagraph();
+    } else if (SEPARATOR_PATTERN.test(line)) {
+      flushParagraph();
+      blocks.push(createBlock('paragraph', []));
+    } else if (heading) {
+      flushParagraph();
+      blocks.push(createBlock('heading', parseInlineContent(heading[2] ?? '', mentions, linked), { level: heading[1]?.length ?? 1 }));
+    } else if (checkListItem) {
+      flushParagraph();
+      blocks.push(
+        createBlock('checkListItem', parseInlineContent(checkListItem[2] ?? '', mentions, linked), {
+          checked: checkListItem[1] !== ' ',
+        }),
+      );
+    } else if (bulletListItem) {
+      flushParagraph();
+      blocks.push(createBlock('bulletListItem', parseInlineContent(bulletListItem[1] ?? '', mentions, linked)));
+    } else if (numberedListItem) {
+      flushParagraph();
+      blocks.push(createBlock('numberedListItem', parseInlineContent(numberedListItem[1] ?? '', mentions, linked)));
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  return blocks;
+};
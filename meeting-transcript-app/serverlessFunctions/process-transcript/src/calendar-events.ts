@@ -0,0 +1,128 @@
+import axios from 'axios';
+import { getLogger } from './logger.js';
+import { type Participant } from './participants.js';
+import { requestTwenty } from './twenty-api.js';
+
+export type CalendarEvent = {
+  id: string;
+  title: string;
+  // ISO date for full-day events, ISO date and time otherwise.
+  startsAt: string | null;
+  // Time zone of the organizer's workspace member, when it is set.
+  timezone?: string;
+  organizerWorkspaceMemberId?: string;
+  participants: Participant[];
+};
+
+type CalendarEventParticipantNode = {
+  handle?: string | null;
+  displayName?: string | null;
+  isOrganizer?: boolean | null;
+  personId?: string | null;
+  workspaceMemberId?: string | null;
+  workspaceMember?: { timeZone?: string | null } | null;
+};
+
+type CalendarEventNode = {
+  id: string;
+  title?: string | null;
+  startsAt?: string | null;
+  isFullDay?: boolean | null;
+  calendarEventParticipants?: { edges?: { node: CalendarEventParticipantNode }[] } | null;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Workspace members that never picked a time zone follow their browser's.
+const SYSTEM_TIME_ZONE = 'system';
+
+const CALENDAR_EVENT_QUERY = `
+  query GetCalendarEvent($filter: CalendarEventFilterInput) {
+    calendarEvents(filter: $filter, first: 1) {
+      edges {
+        node {
+          id
+          title
+          startsAt
+          isFullDay
+          calendarEventParticipants {
+            edges {
+              node {
+                handle
+                displayName
+                isOrganizer
+                personId
+                workspaceMemberId
+                workspaceMember { timeZone }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const toParticipant = (node: CalendarEventParticipantNode): Participant | null => {
+  const email = node.handle && EMAIL_PATTERN.test(node.handle.trim()) ? node.handle.trim().toLowerCase() : undefined;
+  const name = node.displayName?.trim() || email;
+  if (!name) {
+    return null;
+  }
+  return {
+    name,
+    ...(email && { email }),
+    ...(node.personId && { personId: node.personId }),
+    ...(node.workspaceMemberId && { workspaceMemberId: node.workspaceMemberId }),
+  };
+};
+
+const getOrganizerTimeZone = (nodes: CalendarEventParticipantNode[]): string | undefined => {
+  const organizerFirst = [...nodes].sort((a, b) => Number(!!b.isOrganizer) - Number(!!a.isOrganizer));
+  const timeZone = organizerFirst
+    .map((node) => node.workspaceMember?.timeZone)
+    .find((zone) => zone && zone !== SYSTEM_TIME_ZONE);
+  return timeZone ?? undefined;
+};
+
+export const loadCalendarEvent = async (calendarEventId: string): Promise<CalendarEvent> => {
+  let event: CalendarEventNode | undefined;
+  try {
+    const response = await requestTwenty('post', '/graphql', {
+      query: CALENDAR_EVENT_QUERY,
+      variables: { filter: { id: { eq: calendarEventId } } },
+    });
+    event = response.data?.data?.calendarEvents?.edges?.[0]?.node;
+  } catch (error) {
+    const errorMessage = axios.isAxiosError(error) && error.response?.data
+      ? JSON.stringify(error.response.data, null, 2)
+      : error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load calendar event ${calendarEventId}: ${errorMessage}`);
+  }
+  if (!event) {
+    throw new Error(`Calendar event ${calendarEventId} was not found`);
+  }
+
+  const participantNodes = (event.calendarEventParticipants?.edges ?? []).map((edge) => edge.node);
+  const participants = participantNodes
+    .map(toParticipant)
+    .filter((participant): participant is Participant => participant !== null);
+  const timezone = getOrganizerTimeZone(participantNodes);
+  const organizerWorkspaceMemberId = participantNodes.find((node) => node.isOrganizer)?.workspaceMemberId;
+  const startsAt = event.startsAt && event.isFullDay ? event.startsAt.slice(0, 10) : event.startsAt ?? null;
+
+  getLogger().info('Calendar event loaded', {
+    calendarEventId,
+    participants: participants.length,
+    matchedPeople: participants.filter((participant) => participant.personId).length,
+    workspaceMembers: participants.filter((participant) => participant.workspaceMemberId).length,
+  });
+
+  return {
+    id: event.id,
+    title: event.title?.trim() || '',
+    startsAt,
+    ...(timezone && { timezone }),
+    ...(organizerWorkspaceMemberId && { organizerWorkspaceMemberId }),
+    participants,
+  };
+};
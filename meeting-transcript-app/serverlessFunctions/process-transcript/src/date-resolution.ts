@@ -0,0 +1,632 @@
+type CalendarDate = {
+  year: number;
+  month: number;
+  day: number;
+};
+
+type NonWorkingDayAdjustment = 'backward' | 'forward' | 'none';
+
+export type DateResolutionConfig = {
+  timezone: string;
+  endOfWeekDay: number;
+  workingDays: number[];
+  dueTime: { hours: number; minutes: number };
+};
+
+export type DateResolutionContext = DateResolutionConfig & {
+  meetingDate: CalendarDate;
+  // Language of the transcript; due date phrases in it are translated before they are resolved.
+  language?: string;
+};
+
+export type ResolvedDueDate = {
+  expression: string;
+  date: string;
+  dueAt: string;
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0,
+  sun: 0,
+  monday: 1,
+  mon: 1,
+  tuesday: 2,
+  tue: 2,
+  tues: 2,
+  wednesday: 3,
+  wed: 3,
+  thursday: 4,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  friday: 5,
+  fri: 5,
+  saturday: 6,
+  sat: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  january: 1,
+  jan: 1,
+  february: 2,
+  feb: 2,
+  march: 3,
+  mar: 3,
+  april: 4,
+  apr: 4,
+  may: 5,
+  june: 6,
+  jun: 6,
+  july: 7,
+  jul: 7,
+  august: 8,
+  aug: 8,
+  september: 9,
+  sep: 9,
+  sept: 9,
+  october: 10,
+  oct: 10,
+  november: 11,
+  nov: 11,
+  december: 12,
+  dec: 12,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  couple: 2,
+  'a couple': 2,
+  'a couple of': 2,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAYS).join('|');
+const MONTH_PATTERN = Object.keys(MONTHS).join('|');
+const NUMBER_PATTERN = `\\d+|${Object.keys(NUMBER_WORDS)
+  .sort((a, b) => b.length - a.length)
+  .join('|')}`;
+
+// Rewrites due date phrases into the English phrases understood below. The rules run in order
+// on lowercase text without accents, so multi-word phrases come before single words.
+const DATE_PHRASE_TRANSLATIONS: Record<string, [RegExp, string][]> = {
+  es: [
+    [/\b(\d{1,2}) de (\p{L}+) de (\d{4})\b/gu, '$1 $2 $3'],
+    [/\bpasado manana\b/g, 'day after tomorrow'],
+    [/\b(a mas tardar|antes del?|hasta el|para el|para)\b/g, 'by'],
+    [/\bdentro de\b/g, 'in'],
+    [/\b(?:fin|final|finales) de(?:l| la| este| esta)?\b/g, 'end of'],
+    [/\bmediados de\b/g, 'mid'],
+    [/\bun par de\b/g, 'a couple of'],
+    [/\bdias (habiles|laborables)\b/g, 'business days'],
+    [/\b(?:proxim[oa]|siguiente) (?=\p{L})/gu, 'next '],
+    [/\b(\p{L}+) (?:que viene|proxim[oa]|siguiente)\b/gu, 'next $1'],
+  ],
+  de: [
+    [/\b(\d{1,2})\.(?= )/g, '$1'],
+    [/\bubermorgen\b/g, 'day after tomorrow'],
+    [/\b(monats|quartals|jahres)ende\b/g, 'end of $1'],
+    [/\bende(?: der| des| dieser| diesen| dieses| vom)?\b/g, 'end of'],
+    [/\b(?:innerhalb von|binnen)\b/g, 'in'],
+    [/\b(?:spatestens|bis zum|bis zur|bis)\b/g, 'by'],
+    [/\b(?:arbeitstagen|arbeitstage|werktagen|werktage)\b/g, 'business days'],
+    [/\b(?:nachste[nrs]?|kommende[nrs]?)\b/g, 'next'],
+    [/\b(?:diese[nrs]?)\b/g, 'this'],
+  ],
+  fr: [
+    [/\bapres demain\b/g, 'day after tomorrow'],
+    [/\baujourd hui\b/g, 'today'],
+    [/\bquinze jours\b/g, '2 weeks'],
+    [/\b(?:d ici|dici|avant|pour|jusqu au|jusquau|au plus tard)\b/g, 'by'],
+    [/\bfin (?:de la|de ce|de cette|du|de)\b/g, 'end of'],
+    [/\bmi (?=\p{L})/gu, 'mid '],
+    [/\bjours (?:ouvrables|ouvres)\b/g, 'business days'],
+    [/\bprochaine? (?=\p{L})/gu, 'next '],
+    [/\b(\p{L}+) prochaine?\b/gu, 'next $1'],
+    [/\b(?:ce|cette)\b/g, 'this'],
+  ],
+};
+
+// Single words, translated after the phrases above.
+const DATE_WORD_TRANSLATIONS: Record<string, Record<string, string>> = {
+  es: {
+    hoy: 'today', manana: 'tomorrow', lunes: 'monday', martes: 'tuesday', miercoles: 'wednesday',
+    jueves: 'thursday', viernes: 'friday', sabado: 'saturday', domingo: 'sunday',
+    enero: 'january', febrero: 'february', marzo: 'march', abril: 'april', mayo: 'may', junio: 'june',
+    julio: 'july', agosto: 'august', septiembre: 'september', setiembre: 'september', octubre: 'october',
+    noviembre: 'november', diciembre: 'december',
+    dia: 'day', dias: 'days', semana: 'week', semanas: 'weeks', mes: 'month', meses: 'months',
+    trimestre: 'quarter', ano: 'year', en: 'in', este: 'this', esta: 'this', de: 'of',
+    el: 'the', la: 'the', los: 'the', las: 'the',
+    un: 'one', una: 'one', uno: 'one', dos: 'two', tres: 'three', cuatro: 'four', cinco: 'five',
+    seis: 'six', siete: 'seven', ocho: 'eight', nueve: 'nine', diez: 'ten',
+  },
+  de: {
+    heute: 'today', morgen: 'tomorrow', montag: 'monday', dienstag: 'tuesday', mittwoch: 'wednesday',
+    donnerstag: 'thursday', freitag: 'friday', samstag: 'saturday', sonnabend: 'saturday', sonntag: 'sunday',
+    januar: 'january', februar: 'february', marz: 'march', april: 'april', mai: 'may', juni: 'june',
+    juli: 'july', august: 'august', september: 'september', oktober: 'october', november: 'november',
+    dezember: 'december',
+    tag: 'day', tage: 'days', tagen: 'days', woche: 'week', wochen: 'weeks', monat: 'month', monats: 'month',
+    monate: 'months', monaten: 'months', quartal: 'quarter', quartals: 'quarter', jahr: 'year', jahres: 'year',
+    mitte: 'mid', in: 'in', am: 'on', zum: 'the', der: 'the', die: 'the', das: 'the', den: 'the', dem: 'the',
+    ein: 'one', eine: 'one', einem: 'one', einer: 'one', zwei: 'two', drei: 'three', vier: 'four',
+    funf: 'five', sechs: 'six', sieben: 'seven', acht: 'eight', neun: 'nine', zehn: 'ten',
+  },
+  fr: {
+    demain: 'tomorrow', lundi: 'monday', mardi: 'tuesday', mercredi: 'wednesday',
+    jeudi: 'thursday', vendredi: 'friday', samedi: 'saturday', dimanche: 'sunday',
+    janvier: 'january', fevrier: 'february', mars: 'march', avril: 'april', mai: 'may', juin: 'june',
+    juillet: 'july', aout: 'august', septembre: 'september', octobre: 'october', novembre: 'november',
+    decembre: 'december',
+    jour: 'day', jours: 'days', semaine: 'week', semaines: 'weeks', mois: 'month', trimestre: 'quarter',
+    annee: 'year', dans: 'in', le: 'the', la: 'the', les: 'the', l: 'the',
+    un: 'one', une: 'one', deux: 'two', trois: 'three', quatre: 'four', cinq: 'five', six: 'six',
+    sept: 'seven', huit: 'eight', neuf: 'nine', dix: 'ten',
+  },
+};
+
+const LEADING_FILLER_PATTERN =
+  /^(by|before|until|till|no later than|on or before|on|due|around|at|for|within the next|sometime)\s+/;
+
+export const isValidTimeZone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const parseWeekday = (value: string, name: string): number => {
+  const weekday = WEEKDAYS[value.trim().toLowerCase()];
+  if (weekday === undefined) {
+    throw new Error(`${name} must be a weekday name, got "${value}"`);
+  }
+  return weekday;
+};
+
+export const getDateResolutionConfig = (
+  timezoneOverride?: string,
+): DateResolutionConfig => {
+  const timezone = timezoneOverride || process.env.DEFAULT_TIMEZONE || 'UTC';
+  if (!isValidTimeZone(timezone)) {
+    throw new Error(`Invalid timezone "${timezone}". Use an IANA name such as "America/New_York"`);
+  }
+
+  const endOfWeekDay = parseWeekday(process.env.END_OF_WEEK_DAY || 'friday', 'END_OF_WEEK_DAY');
+
+  const workingDays = (process.env.WORKING_DAYS || 'monday,tuesday,wednesday,thursday,friday')
+    .split(',')
+    .filter((day) => day.trim() !== '')
+    .map((day) => parseWeekday(day, 'WORKING_DAYS'));
+  if (workingDays.length === 0) {
+    throw new Error('WORKING_DAYS must list at least one weekday');
+  }
+
+  const dueTimeMatch = /^(\d{1,2}):(\d{2})$/.exec((process.env.DUE_TIME || '17:00').trim());
+  const hours = Number(dueTimeMatch?.[1]);
+  const minutes = Number(dueTimeMatch?.[2]);
+  if (!dueTimeMatch || hours > 23 || minutes > 59) {
+    throw new Error(`DUE_TIME must be in HH:mm format, got "${process.env.DUE_TIME}"`);
+  }
+
+  return { timezone, endOfWeekDay, workingDays, dueTime: { hours, minutes } };
+};
+
+const getCalendarDateInTimeZone = (instant: Date, timezone: string): CalendarDate => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  return { year: part('year'), month: part('month'), day: part('day') };
+};
+
+const getTimeZoneOffsetMs = (instant: number, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second'),
+  );
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+const toUtcInstant = (
+  date: CalendarDate,
+  time: { hours: number; minutes: number },
+  timezone: string,
+): Date => {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, time.hours, time.minutes);
+  const firstGuess = wallClock - getTimeZoneOffsetMs(wallClock, timezone);
+  return new Date(wallClock - getTimeZoneOffsetMs(firstGuess, timezone));
+};
+
+const fromUtcDate = (date: Date): CalendarDate => ({
+  year: date.getUTCFullYear(),
+  month: date.getUTCMonth() + 1,
+  day: date.getUTCDate(),
+});
+
+const toUtcDate = (date: CalendarDate): Date =>
+  new Date(Date.UTC(date.year, date.month - 1, date.day));
+
+const addDays = (date: CalendarDate, days: number): CalendarDate => {
+  const result = toUtcDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return fromUtcDate(result);
+};
+
+const getLastDayOfMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const addMonths = (date: CalendarDate, months: number): CalendarDate => {
+  const monthIndex = date.month - 1 + months;
+  const year = date.year + Math.floor(monthIndex / 12);
+  const month = (((monthIndex % 12) + 12) % 12) + 1;
+  return { year, month, day: Math.min(date.day, getLastDayOfMonth(year, month)) };
+};
+
+const endOfMonth = (year: number, month: number): CalendarDate => ({
+  year,
+  month,
+  day: getLastDayOfMonth(year, month),
+});
+
+const getWeekday = (date: CalendarDate): number => toUtcDate(date).getUTCDay();
+
+const compareDates = (a: CalendarDate, b: CalendarDate): number =>
+  toUtcDate(a).getTime() - toUtcDate(b).getTime();
+
+const formatCalendarDate = (date: CalendarDate): string =>
+  `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+
+const nextWeekday = (from: CalendarDate, weekday: number, includeFrom: boolean): CalendarDate => {
+  let delta = (weekday - getWeekday(from) + 7) % 7;
+  if (delta === 0 && !includeFrom) {
+    delta = 7;
+  }
+  return addDays(from, delta);
+};
+
+const isWorkingDay = (date: CalendarDate, context: DateResolutionContext): boolean =>
+  context.workingDays.includes(getWeekday(date));
+
+const adjustForWorkingDays = (
+  date: CalendarDate,
+  adjustment: NonWorkingDayAdjustment,
+  context: DateResolutionContext,
+): CalendarDate => {
+  if (adjustment === 'none' || isWorkingDay(date, context)) {
+    return date;
+  }
+
+  const step = adjustment === 'backward' ? -1 : 1;
+  let candidate = date;
+  for (let i = 0; i < 7 && !isWorkingDay(candidate, context); i++) {
+    candidate = addDays(candidate, step);
+  }
+
+  if (adjustment === 'backward' && compareDates(candidate, context.meetingDate) < 0) {
+    return adjustForWorkingDays(date, 'forward', context);
+  }
+  return candidate;
+};
+
+const addWorkingDays = (
+  date: CalendarDate,
+  days: number,
+  context: DateResolutionContext,
+): CalendarDate => {
+  let result = date;
+  let remaining = days;
+  while (remaining > 0) {
+    result = addDays(result, 1);
+    if (isWorkingDay(result, context)) {
+      remaining--;
+    }
+  }
+  return result;
+};
+
+const parseCount = (value: string): number | null => {
+  const normalized = value.trim();
+  if (/^\d+$/.test(normalized)) {
+    return Number(normalized);
+  }
+  return NUMBER_WORDS[normalized] ?? null;
+};
+
+const endOfQuarter = (year: number, quarter: number): CalendarDate =>
+  endOfMonth(year, quarter * 3);
+
+const getQuarter = (date: CalendarDate): number => Math.ceil(date.month / 3);
+
+const resolveMonthDay = (
+  month: number,
+  day: number,
+  year: number | undefined,
+  context: DateResolutionContext,
+): CalendarDate | null => {
+  const candidateYear = year ?? context.meetingDate.year;
+  if (day < 1 || day > getLastDayOfMonth(candidateYear, month)) {
+    return null;
+  }
+
+  const candidate = { year: candidateYear, month, day };
+  if (year === undefined && compareDates(candidate, context.meetingDate) < 0) {
+    return { ...candidate, year: candidateYear + 1 };
+  }
+  return candidate;
+};
+
+const translateExpression = (expression: string, language: string): string | null => {
+  const baseLanguage = language.split('-')[0] ?? language;
+  const phrases = DATE_PHRASE_TRANSLATIONS[baseLanguage];
+  const words = DATE_WORD_TRANSLATIONS[baseLanguage];
+  if (!phrases || !words) {
+    return null;
+  }
+
+  let text = expression
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[’'-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  for (const [pattern, replacement] of phrases) {
+    text = text.replace(pattern, replacement);
+  }
+  return text.replace(/\p{L}+/gu, (word) => words[word] ?? word);
+};
+
+const normalizeExpression = (expression: string): string => {
+  let normalized = expression
+    .toLowerCase()
+    .replace(/[.!?;]+$/g, '')
+    .replace(/[’']/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let previous = '';
+  while (previous !== normalized) {
+    previous = normalized;
+    normalized = normalized.replace(LEADING_FILLER_PATTERN, '');
+  }
+
+  return normalized.replace(/\bthe\s+/g, '').replace(/-/g, ' ').trim();
+};
+
+const resolveCalendarDate = (
+  expression: string,
+  context: DateResolutionContext,
+): { date: CalendarDate; adjustment: NonWorkingDayAdjustment } | null => {
+  const meeting = context.meetingDate;
+  const text = normalizeExpression(expression);
+  let match: RegExpExecArray | null;
+
+  if ((match = /^(\d{4}) (\d{1,2}) (\d{1,2})\b/.exec(text))) {
+    const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+    if (date.month < 1 || date.month > 12 || date.day < 1 || date.day > getLastDayOfMonth(date.year, date.month)) {
+      return null;
+    }
+    return { date, adjustment: 'none' };
+  }
+
+  if (/^(today|tonight|eod|end of (business )?day|end of today|close of business|cob)$/.test(text)) {
+    return { date: meeting, adjustment: 'none' };
+  }
+  if (/^(tomorrow|tmrw|end of day tomorrow|tomorrow eod)$/.test(text)) {
+    return { date: addDays(meeting, 1), adjustment: 'none' };
+  }
+  if (text === 'day after tomorrow') {
+    return { date: addDays(meeting, 2), adjustment: 'none' };
+  }
+
+  if ((match = new RegExp(`^(?:in )?(${NUMBER_PATTERN}) (?:business|working) days?(?: from now)?$`).exec(text))) {
+    const count = parseCount(match[1] ?? '');
+    return count === null ? null : { date: addWorkingDays(meeting, count, context), adjustment: 'none' };
+  }
+
+  if ((match = new RegExp(`^(?:in )?(${NUMBER_PATTERN}) (days?|weeks?|months?)(?: from now| time)?$`).exec(text))) {
+    const count = parseCount(match[1] ?? '');
+    if (count === null) {
+      return null;
+    }
+    const unit = match[2] ?? '';
+    if (unit.startsWith('day')) {
+      return { date: addDays(meeting, count), adjustment: 'forward' };
+    }
+    if (unit.startsWith('week')) {
+      return { date: addDays(meeting, count * 7), adjustment: 'forward' };
+    }
+    return { date: addMonths(meeting, count), adjustment: 'forward' };
+  }
+
+  const endOfThisWeek = nextWeekday(meeting, context.endOfWeekDay, true);
+  if (/^(end of (this )?week|eow|this week|end of week)$/.test(text)) {
+    return { date: endOfThisWeek, adjustment: 'backward' };
+  }
+  if (/^(end of next week|next week end)$/.test(text)) {
+    return { date: addDays(endOfThisWeek, 7), adjustment: 'backward' };
+  }
+  if (text === 'next week') {
+    return { date: addDays(meeting, 7), adjustment: 'forward' };
+  }
+
+  if (/^(end of (this )?month|eom|this month|month end)$/.test(text)) {
+    return { date: endOfMonth(meeting.year, meeting.month), adjustment: 'backward' };
+  }
+  if (/^(end of next month|next month)$/.test(text)) {
+    const nextMonth = addMonths({ ...meeting, day: 1 }, 1);
+    return { date: endOfMonth(nextMonth.year, nextMonth.month), adjustment: 'backward' };
+  }
+
+  if (/^(end of (this )?quarter|eoq|this quarter|quarter end)$/.test(text)) {
+    return { date: endOfQuarter(meeting.year, getQuarter(meeting)), adjustment: 'backward' };
+  }
+  if (/^(end of next quarter|next quarter)$/.test(text)) {
+    const quarter = getQuarter(meeting) + 1;
+    const date = quarter > 4 ? endOfQuarter(meeting.year + 1, 1) : endOfQuarter(meeting.year, quarter);
+    return { date, adjustment: 'backward' };
+  }
+  if ((match = /^(?:end of )?q([1-4])(?: (?:fy)?(\d{4}))?$/.exec(text))) {
+    const quarter = Number(match[1]);
+    const explicitYear = match[2] ? Number(match[2]) : undefined;
+    let date = endOfQuarter(explicitYear ?? meeting.year, quarter);
+    if (explicitYear === undefined && compareDates(date, meeting) < 0) {
+      date = endOfQuarter(meeting.year + 1, quarter);
+    }
+    return { date, adjustment: 'backward' };
+  }
+
+  if (/^(end of (this )?year|eoy|this year|year end)$/.test(text)) {
+    return { date: endOfMonth(meeting.year, 12), adjustment: 'backward' };
+  }
+  if (/^(end of next year|next year)$/.test(text)) {
+    return { date: endOfMonth(meeting.year + 1, 12), adjustment: 'backward' };
+  }
+
+  if ((match = new RegExp(`^(this|coming|next)? ?(${WEEKDAY_PATTERN})( next week)?$`).exec(text))) {
+    const weekday = WEEKDAYS[match[2] ?? ''];
+    if (weekday === undefined) {
+      return null;
+    }
+    // "Friday next week" is that weekday in the week after the meeting's week, which starts on Monday.
+    if (match[3]) {
+      const monday = addDays(meeting, -((getWeekday(meeting) + 6) % 7));
+      return { date: addDays(monday, ((weekday + 6) % 7) + 7), adjustment: 'none' };
+    }
+    return { date: nextWeekday(meeting, weekday, match[1] === 'this'), adjustment: 'none' };
+  }
+
+  if ((match = new RegExp(`^(?:end of|late) (${MONTH_PATTERN})(?: (\\d{4}))?$`).exec(text))) {
+    const month = MONTHS[match[1] ?? ''];
+    if (month === undefined) {
+      return null;
+    }
+    const year = match[2] ? Number(match[2]) : undefined;
+    const date = resolveMonthDay(month, getLastDayOfMonth(year ?? meeting.year, month), year, context);
+    return date ? { date, adjustment: 'backward' } : null;
+  }
+
+  if ((match = new RegExp(`^(?:mid|middle of) (${MONTH_PATTERN})(?: (\\d{4}))?$`).exec(text))) {
+    const month = MONTHS[match[1] ?? ''];
+    if (month === undefined) {
+      return null;
+    }
+    const date = resolveMonthDay(month, 15, match[2] ? Number(match[2]) : undefined, context);
+    return date ? { date, adjustment: 'forward' } : null;
+  }
+
+  if ((match = new RegExp(`^(?:(?:${WEEKDAY_PATTERN}),? )?(${MONTH_PATTERN}) (\\d{1,2})(?:st|nd|rd|th)?(?:,? (\\d{4}))?$`).exec(text))) {
+    const month = MONTHS[match[1] ?? ''];
+    if (month === undefined) {
+      return null;
+    }
+    const date = resolveMonthDay(month, Number(match[2]), match[3] ? Number(match[3]) : undefined, context);
+    return date ? { date, adjustment: 'none' } : null;
+  }
+
+  if ((match = new RegExp(`^(?:(?:${WEEKDAY_PATTERN}),? )?(\\d{1,2})(?:st|nd|rd|th)?(?: of)? (${MONTH_PATTERN})(?:,? (\\d{4}))?$`).exec(text))) {
+    const month = MONTHS[match[2] ?? ''];
+    if (month === undefined) {
+      return null;
+    }
+    const date = resolveMonthDay(month, Number(match[1]), match[3] ? Number(match[3]) : undefined, context);
+    return date ? { date, adjustment: 'none' } : null;
+  }
+
+  return null;
+};
+
+export const createDateResolutionContext = (
+  meetingDate: string | undefined,
+  config: DateResolutionConfig,
+): DateResolutionContext => {
+  if (!meetingDate) {
+    return { ...config, meetingDate: getCalendarDateInTimeZone(new Date(), config.timezone) };
+  }
+
+  // Date parsing rolls days such as 2025-02-30 over into the next month, so the range is checked here.
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})(T.*)?$/.exec(meetingDate.trim());
+  if (dateMatch) {
+    const date = { year: Number(dateMatch[1]), month: Number(dateMatch[2]), day: Number(dateMatch[3]) };
+    if (date.month < 1 || date.month > 12 || date.day < 1 || date.day > getLastDayOfMonth(date.year, date.month)) {
+      throw new Error(`meetingDate "${meetingDate}" is not a valid date`);
+    }
+    if (!dateMatch[4]) {
+      return { ...config, meetingDate: date };
+    }
+  }
+
+  const instant = new Date(meetingDate);
+  if (isNaN(instant.getTime())) {
+    throw new Error(`meetingDate "${meetingDate}" is not a valid date`);
+  }
+  return { ...config, meetingDate: getCalendarDateInTimeZone(instant, config.timezone) };
+};
+
+export const resolveDueDate = (
+  expression: string | undefined,
+  context: DateResolutionContext,
+): ResolvedDueDate | null => {
+  if (!expression || !expression.trim()) {
+    return null;
+  }
+
+  const translated = context.language ? translateExpression(expression, context.language) : null;
+  const resolved = resolveCalendarDate(expression, context)
+    ?? (translated ? resolveCalendarDate(translated, context) : null);
+  if (!resolved) {
+    return null;
+  }
+
+  const date = adjustForWorkingDays(resolved.date, resolved.adjustment, context);
+  return {
+    expression: expression.trim(),
+    date: formatCalendarDate(date),
+    dueAt: toUtcInstant(date, context.dueTime, context.timezone).toISOString(),
+  };
+};
+
+export const describeMeetingDate = (context: DateResolutionContext): string => {
+  const weekday = new Intl.DateTimeFormat('en-US', { weekday: 'long', timeZone: 'UTC' }).format(
+    toUtcDate(context.meetingDate),
+  );
+  return `${formatCalendarDate(context.meetingDate)} (${weekday}, timezone ${context.timezone})`;
+};
+
+// The YYYY-MM-DD date an instant falls on in a time zone, e.g. for a calendar event's UTC start time.
+export const formatLocalDate = (instant: string, timezone: string): string =>
+  formatCalendarDate(getCalendarDateInTimeZone(new Date(instant), timezone));
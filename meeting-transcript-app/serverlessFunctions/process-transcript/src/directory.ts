@@ -0,0 +1,507 @@
+import axios from 'axios';
+import { getLogger } from './logger.js';
+import { fetchAllGraphQLPages } from './twenty-api.js';
+
+export type DirectoryKind = 'workspaceMember' | 'person' | 'company';
+
+export type DirectoryEntry = {
+  id: string;
+  firstName: string;
+  lastName: string;
+  emails: string[];
+};
+
+export type CompanyEntry = {
+  id: string;
+  name: string;
+  domain: string;
+};
+
+export type NameMatchMethod =
+  | 'email'
+  | 'domain'
+  | 'exact'
+  | 'nickname'
+  | 'initial and last name'
+  | 'first name'
+  | 'last name'
+  | 'initials'
+  | 'partial';
+
+export type NameResolutionStatus = 'matched' | 'ambiguous' | 'low_confidence' | 'not_found' | 'lookup_failed';
+
+export type NameResolution = {
+  name: string;
+  kind: DirectoryKind;
+  status: NameResolutionStatus;
+  id?: string;
+  matchedName?: string;
+  method?: NameMatchMethod;
+  confidence: number;
+  candidates?: { id: string; name: string }[];
+};
+
+export type Directory = {
+  resolveWorkspaceMember: (name: string) => Promise<NameResolution>;
+  resolvePerson: (name: string) => Promise<NameResolution>;
+  resolveCompany: (name: string) => Promise<NameResolution>;
+  findWorkspaceMember: (id: string) => Promise<DirectoryEntry | null>;
+  getWorkspaceMembers: () => Promise<DirectoryEntry[]>;
+  addPerson: (entry: DirectoryEntry) => Promise<void>;
+  addCompany: (entry: CompanyEntry) => Promise<void>;
+  getResolutions: () => NameResolution[];
+  commit: () => Promise<void>;
+  fork: () => Directory;
+};
+
+type ScoredEntry = {
+  entry: DirectoryEntry;
+  score: number;
+  method: NameMatchMethod;
+};
+
+const MIN_CONFIDENCE = 0.6;
+const AMBIGUITY_MARGIN = 0.05;
+
+const NICKNAMES: Record<string, string[]> = {
+  abigail: ['abby', 'abbie'],
+  alexander: ['alex', 'al', 'sasha'],
+  alexandra: ['alex', 'sasha', 'lexi'],
+  allison: ['ally', 'allie'],
+  andrew: ['andy', 'drew'],
+  anthony: ['tony'],
+  benjamin: ['ben', 'benny'],
+  catherine: ['cathy', 'kate', 'katie', 'cat'],
+  charles: ['charlie', 'chuck', 'chas'],
+  christina: ['chris', 'tina', 'chrissy'],
+  christine: ['chris', 'chrissy'],
+  christopher: ['chris', 'topher'],
+  daniel: ['dan', 'danny'],
+  david: ['dave', 'davey'],
+  donald: ['don', 'donny'],
+  edward: ['ed', 'eddie', 'ted', 'ned'],
+  elizabeth: ['liz', 'beth', 'betsy', 'lizzie', 'eliza'],
+  francis: ['frank', 'fran'],
+  frederick: ['fred', 'freddie'],
+  gabriel: ['gabe'],
+  gregory: ['greg'],
+  henry: ['hank', 'harry'],
+  jacob: ['jake'],
+  james: ['jim', 'jimmy', 'jamie'],
+  jennifer: ['jen', 'jenny'],
+  jeffrey: ['jeff'],
+  john: ['johnny', 'jack', 'jon'],
+  jonathan: ['jon', 'jonny', 'nathan'],
+  joseph: ['joe', 'joey'],
+  joshua: ['josh'],
+  katherine: ['kate', 'katie', 'kathy', 'kat'],
+  kenneth: ['ken', 'kenny'],
+  lawrence: ['larry'],
+  margaret: ['maggie', 'meg', 'peggy'],
+  matthew: ['matt'],
+  michael: ['mike', 'mikey', 'mick'],
+  nathaniel: ['nate', 'nathan'],
+  nicholas: ['nick', 'nicky'],
+  patricia: ['pat', 'patty', 'trish'],
+  patrick: ['pat', 'paddy'],
+  peter: ['pete'],
+  philip: ['phil'],
+  richard: ['rick', 'rich', 'dick', 'ricky'],
+  robert: ['bob', 'rob', 'bobby', 'robbie', 'bert'],
+  ronald: ['ron', 'ronnie'],
+  samantha: ['sam', 'sammy'],
+  samuel: ['sam', 'sammy'],
+  stephen: ['steve', 'stevie'],
+  steven: ['steve', 'stevie'],
+  susan: ['sue', 'susie'],
+  thomas: ['tom', 'tommy'],
+  timothy: ['tim', 'timmy'],
+  victoria: ['vicky', 'tori'],
+  william: ['bill', 'will', 'billy', 'willy', 'liam'],
+  zachary: ['zach', 'zack'],
+};
+
+const COMPANY_SUFFIX_PATTERN =
+  /\b(inc|incorporated|llc|llp|ltd|limited|gmbh|ag|sa|sas|srl|bv|nv|plc|pty|corp|corporation|co|company|group|holdings)\b/g;
+
+const NICKNAME_GROUPS = new Map<string, Set<string>>();
+for (const [canonical, nicknames] of Object.entries(NICKNAMES)) {
+  for (const name of [canonical, ...nicknames]) {
+    const group = NICKNAME_GROUPS.get(name) ?? new Set<string>();
+    group.add(canonical);
+    NICKNAME_GROUPS.set(name, group);
+  }
+}
+
+export const normalizeName = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}@.\s-]/gu, ' ')
+    .replace(/[-.]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const areNicknameEquivalent = (a: string, b: string): boolean => {
+  if (a === b) {
+    return true;
+  }
+  const groupA = NICKNAME_GROUPS.get(a);
+  const groupB = NICKNAME_GROUPS.get(b);
+  if (!groupA || !groupB) {
+    return false;
+  }
+  return [...groupA].some((canonical) => groupB.has(canonical));
+};
+
+export const formatEntryName = (entry: DirectoryEntry): string =>
+  `${entry.firstName} ${entry.lastName}`.trim();
+
+const scoreEntry = (query: string, entry: DirectoryEntry): ScoredEntry | null => {
+  const first = normalizeName(entry.firstName);
+  const last = normalizeName(entry.lastName);
+  const full = `${first} ${last}`.trim();
+  const queryTokens = query.split(' ');
+  const queryFirst = queryTokens[0] ?? '';
+  const queryLast = queryTokens[queryTokens.length - 1] ?? '';
+
+  if (!full) {
+    return null;
+  }
+  if (query === full) {
+    return { entry, score: 1, method: 'exact' };
+  }
+
+  if (queryTokens.length >= 2) {
+    if (queryLast === last && areNicknameEquivalent(queryFirst, first)) {
+      return { entry, score: 0.9, method: 'nickname' };
+    }
+    if (queryLast === last && queryFirst.length === 1 && first.startsWith(queryFirst)) {
+      return { entry, score: 0.8, method: 'initial and last name' };
+    }
+    if (full.includes(query) || (query.includes(full) && full.includes(' '))) {
+      return { entry, score: 0.65, method: 'partial' };
+    }
+    return null;
+  }
+
+  if (query === first) {
+    return { entry, score: 0.7, method: 'first name' };
+  }
+  if (query === last) {
+    return { entry, score: 0.65, method: 'last name' };
+  }
+  if (areNicknameEquivalent(query, first)) {
+    return { entry, score: 0.6, method: 'nickname' };
+  }
+
+  const initials = `${first.charAt(0)}${last.charAt(0)}`;
+  if (query.length === 2 && query === initials) {
+    return { entry, score: 0.4, method: 'initials' };
+  }
+  if (query.length >= 3 && (first.startsWith(query) || last.startsWith(query))) {
+    return { entry, score: 0.5, method: 'partial' };
+  }
+
+  return null;
+};
+
+export const matchName = (
+  name: string,
+  kind: DirectoryKind,
+  entries: DirectoryEntry[],
+): NameResolution => {
+  const query = normalizeName(name);
+  const toCandidate = (entry: DirectoryEntry) => ({ id: entry.id, name: formatEntryName(entry) });
+
+  if (!query) {
+    return { name, kind, status: 'not_found', confidence: 0 };
+  }
+
+  if (query.includes('@')) {
+    const emailMatches = entries.filter((entry) =>
+      entry.emails.some((email) => email.toLowerCase() === name.trim().toLowerCase()),
+    );
+    const [emailMatch] = emailMatches;
+    if (emailMatches.length === 1 && emailMatch) {
+      return {
+        name,
+        kind,
+        status: 'matched',
+        id: emailMatch.id,
+        matchedName: formatEntryName(emailMatch),
+        method: 'email',
+        confidence: 1,
+      };
+    }
+    if (emailMatches.length > 1) {
+      return { name, kind, status: 'ambiguous', confidence: 1, candidates: emailMatches.map(toCandidate) };
+    }
+    return { name, kind, status: 'not_found', confidence: 0 };
+  }
+
+  const scored = entries
+    .map((entry) => scoreEntry(query, entry))
+    .filter((match): match is ScoredEntry => match !== null)
+    .sort((a, b) => b.score - a.score);
+
+  const [best] = scored;
+  if (!best) {
+    return { name, kind, status: 'not_found', confidence: 0 };
+  }
+
+  const contenders = scored.filter((match) => best.score - match.score < AMBIGUITY_MARGIN);
+  if (contenders.length > 1) {
+    return {
+      name,
+      kind,
+      status: 'ambiguous',
+      confidence: best.score,
+      candidates: contenders.map((match) => toCandidate(match.entry)),
+    };
+  }
+
+  return {
+    name,
+    kind,
+    status: best.score >= MIN_CONFIDENCE ? 'matched' : 'low_confidence',
+    ...(best.score >= MIN_CONFIDENCE
+      ? { id: best.entry.id }
+      : { candidates: [toCandidate(best.entry)] }),
+    matchedName: formatEntryName(best.entry),
+    method: best.method,
+    confidence: best.score,
+  };
+};
+
+const normalizeCompanyName = (value: string): string =>
+  normalizeName(value).replace(COMPANY_SUFFIX_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+
+const getDomainRoot = (domain: string): string => {
+  const hostname = domain
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#]/)[0] ?? '';
+  return hostname.split('.')[0] ?? '';
+};
+
+export const matchCompanyName = (name: string, entries: CompanyEntry[]): NameResolution => {
+  const query = normalizeCompanyName(name);
+  const compactQuery = query.replace(/\s/g, '');
+  const kind: DirectoryKind = 'company';
+
+  if (!query) {
+    return { name, kind, status: 'not_found', confidence: 0 };
+  }
+
+  const scored: { entry: CompanyEntry; score: number; method: NameMatchMethod }[] = [];
+  for (const entry of entries) {
+    const entryName = normalizeCompanyName(entry.name);
+    if (!entryName) {
+      continue;
+    }
+    if (entryName === query) {
+      scored.push({ entry, score: 1, method: 'exact' });
+    } else if (entry.domain && getDomainRoot(entry.domain) === compactQuery) {
+      scored.push({ entry, score: 0.8, method: 'domain' });
+    } else if (
+      query.length >= 3 &&
+      (entryName.startsWith(`${query} `) || query.startsWith(`${entryName} `))
+    ) {
+      scored.push({ entry, score: 0.6, method: 'partial' });
+    }
+  }
+  scored.sort((a, b) => b.score - a.score);
+
+  const [best] = scored;
+  if (!best) {
+    return { name, kind, status: 'not_found', confidence: 0 };
+  }
+
+  const contenders = scored.filter((match) => best.score - match.score < AMBIGUITY_MARGIN);
+  if (contenders.length > 1) {
+    return {
+      name,
+      kind,
+      status: 'ambiguous',
+      confidence: best.score,
+      candidates: contenders.map((match) => ({ id: match.entry.id, name: match.entry.name })),
+    };
+  }
+
+  return {
+    name,
+    kind,
+    status: 'matched',
+    id: best.entry.id,
+    matchedName: best.entry.name,
+    method: best.method,
+    confidence: best.score,
+  };
+};
+
+const loadWorkspaceMembers = async (): Promise<DirectoryEntry[]> => {
+  const nodes = await fetchAllGraphQLPages<{
+    id: string;
+    name?: { firstName?: string; lastName?: string };
+    userEmail?: string | null;
+  }>('workspaceMembers', 'id name { firstName lastName } userEmail');
+
+  return nodes.map((node) => ({
+    id: node.id,
+    firstName: node.name?.firstName || '',
+    lastName: node.name?.lastName || '',
+    emails: node.userEmail ? [node.userEmail] : [],
+  }));
+};
+
+const loadPeople = async (): Promise<DirectoryEntry[]> => {
+  const nodes = await fetchAllGraphQLPages<{
+    id: string;
+    name?: { firstName?: string; lastName?: string };
+    emails?: { primaryEmail?: string | null; additionalEmails?: string[] | null };
+  }>('people', 'id name { firstName lastName } emails { primaryEmail additionalEmails }');
+
+  return nodes.map((node) => ({
+    id: node.id,
+    firstName: node.name?.firstName || '',
+    lastName: node.name?.lastName || '',
+    emails: [node.emails?.primaryEmail, ...(node.emails?.additionalEmails ?? [])].filter(
+      (email): email is string => !!email,
+    ),
+  }));
+};
+
+const loadCompanies = async (): Promise<CompanyEntry[]> => {
+  const nodes = await fetchAllGraphQLPages<{
+    id: string;
+    name?: string | null;
+    domainName?: { primaryLinkUrl?: string | null } | null;
+  }>('companies', 'id name domainName { primaryLinkUrl }');
+
+  return nodes.map((node) => ({
+    id: node.id,
+    name: node.name || '',
+    domain: node.domainName?.primaryLinkUrl || '',
+  }));
+};
+
+const DIRECTORY_LABELS: Record<DirectoryKind, string> = {
+  workspaceMember: 'workspace members',
+  person: 'people',
+  company: 'companies',
+};
+
+// A fork shares the loaded members, people and companies but keeps its own resolutions, so batch
+// runs load the workspace once while each transcript still reports only its own names. Entries a
+// run adds stay in its fork until commit, so records removed by a rollback never reach other runs.
+export const createDirectory = (
+  loads: Map<DirectoryKind, Promise<unknown[] | null>> = new Map(),
+): Directory => {
+  const resolutions = new Map<string, NameResolution>();
+  // Resolutions made before an entry was added stay reported, but are looked up again on next use.
+  const stale = new Set<string>();
+  const added = new Map<DirectoryKind, unknown[]>();
+
+  const loadOnce = <TEntry>(
+    kind: DirectoryKind,
+    load: () => Promise<TEntry[]>,
+  ): Promise<TEntry[] | null> => {
+    let pending = loads.get(kind);
+    if (!pending) {
+      pending = load()
+        .then((loaded) => {
+          getLogger().info('Directory loaded', { kind, count: loaded.length });
+          return loaded;
+        })
+        .catch((error) => {
+          const errorMessage = axios.isAxiosError(error) && error.response?.data
+            ? JSON.stringify(error.response.data, null, 2)
+            : error instanceof Error ? error.message : String(error);
+          getLogger().error(`Failed to load ${DIRECTORY_LABELS[kind]}`, { kind, error: errorMessage });
+          return null;
+        });
+      loads.set(kind, pending);
+    }
+    return pending as Promise<TEntry[] | null>;
+  };
+
+  const loadEntries = async <TEntry>(
+    kind: DirectoryKind,
+    load: () => Promise<TEntry[]>,
+  ): Promise<TEntry[] | null> => {
+    const loaded = await loadOnce(kind, load);
+    const own = (added.get(kind) ?? []) as TEntry[];
+    return loaded && own.length > 0 ? [...loaded, ...own] : loaded;
+  };
+
+  const resolve = async <TEntry>(
+    kind: DirectoryKind,
+    name: string,
+    load: () => Promise<TEntry[]>,
+    match: (entries: TEntry[]) => NameResolution,
+  ): Promise<NameResolution> => {
+    const cacheKey = `${kind}:${normalizeName(name)}`;
+    const cached = resolutions.get(cacheKey);
+    if (cached && !stale.has(cacheKey)) {
+      return cached;
+    }
+
+    const loaded = await loadEntries(kind, load);
+    const resolution: NameResolution = loaded
+      ? match(loaded)
+      : { name, kind, status: 'lookup_failed', confidence: 0 };
+
+    if (resolution.status === 'matched') {
+      getLogger().debug('Name resolved', { kind, id: resolution.id, method: resolution.method, confidence: resolution.confidence });
+    } else {
+      getLogger().debug('Name not resolved', { kind, status: resolution.status });
+    }
+
+    resolutions.set(cacheKey, resolution);
+    stale.delete(cacheKey);
+    return resolution;
+  };
+
+  const addEntry = async <TEntry>(
+    kind: DirectoryKind,
+    load: () => Promise<TEntry[]>,
+    entry: TEntry,
+  ): Promise<void> => {
+    if (!(await loadOnce(kind, load))) {
+      return;
+    }
+    added.set(kind, [...(added.get(kind) ?? []), entry]);
+    for (const cacheKey of [...resolutions.keys()]) {
+      if (cacheKey.startsWith(`${kind}:`)) {
+        stale.add(cacheKey);
+      }
+    }
+  };
+
+  return {
+    resolveWorkspaceMember: (name) =>
+      resolve('workspaceMember', name, loadWorkspaceMembers, (loaded) => matchName(name, 'workspaceMember', loaded)),
+    resolvePerson: (name) =>
+      resolve('person', name, loadPeople, (loaded) => matchName(name, 'person', loaded)),
+    resolveCompany: (name) =>
+      resolve('company', name, loadCompanies, (loaded) => matchCompanyName(name, loaded)),
+    findWorkspaceMember: async (id) => {
+      const loaded = await loadOnce('workspaceMember', loadWorkspaceMembers);
+      return loaded?.find((entry) => entry.id === id) ?? null;
+    },
+    getWorkspaceMembers: async () => (await loadOnce('workspaceMember', loadWorkspaceMembers)) ?? [],
+    addPerson: (entry) => addEntry('person', loadPeople, entry),
+    addCompany: (entry) => addEntry('company', loadCompanies, entry),
+    getResolutions: () => [...resolutions.values()],
+    commit: async () => {
+      for (const [kind, entries] of added) {
+        (await loads.get(kind))?.push(...entries);
+      }
+      added.clear();
+    },
+    fork: () => createDirectory(loads),
+  };
+};
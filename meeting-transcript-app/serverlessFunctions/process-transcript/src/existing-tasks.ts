@@ -0,0 +1,76 @@
+import axios from 'axios';
+import { getLogger } from './logger.js';
+import { fetchAllGraphQLPages, type RecordTarget } from './twenty-api.js';
+
+export type ExistingTask = {
+  id: string;
+  title: string;
+  status: string | null;
+  dueAt: string | null;
+  assigneeId: string | null;
+  markdown: string;
+  blocknote: string | null;
+};
+
+type TaskTargetNode = {
+  task?: {
+    id: string;
+    title?: string | null;
+    status?: string | null;
+    dueAt?: string | null;
+    assigneeId?: string | null;
+    bodyV2?: { markdown?: string | null; blocknote?: string | null } | null;
+  } | null;
+};
+
+export const DONE_TASK_STATUS = 'DONE';
+const MAX_EXISTING_TASKS = 50;
+
+export const loadOpenTasks = async (
+  targets: RecordTarget[],
+): Promise<ExistingTask[]> => {
+  if (targets.length === 0) {
+    return [];
+  }
+
+  try {
+    const nodes = await fetchAllGraphQLPages<TaskTargetNode>(
+      'taskTargets',
+      'task { id title status dueAt assigneeId bodyV2 { markdown blocknote } }',
+      {
+        inputType: 'TaskTargetFilterInput',
+        value: { or: targets.map((target) => ({ [`${target.kind}Id`]: { eq: target.id } })) },
+      },
+    );
+
+    const tasks = new Map<string, ExistingTask>();
+    for (const node of nodes) {
+      const task = node.task;
+      if (!task || tasks.has(task.id) || task.status === DONE_TASK_STATUS) {
+        continue;
+      }
+      tasks.set(task.id, {
+        id: task.id,
+        title: task.title || '',
+        status: task.status ?? null,
+        dueAt: task.dueAt ?? null,
+        assigneeId: task.assigneeId ?? null,
+        markdown: task.bodyV2?.markdown || '',
+        blocknote: task.bodyV2?.blocknote ?? null,
+      });
+    }
+
+    const openTasks = [...tasks.values()]
+      .sort((a, b) => (a.dueAt ?? '9999').localeCompare(b.dueAt ?? '9999'))
+      .slice(0, MAX_EXISTING_TASKS);
+
+    getLogger().info('Open tasks loaded', { found: tasks.size, used: openTasks.length });
+    return openTasks;
+  } catch (error) {
+    const errorMessage = axios.isAxiosError(error) && error.response?.data
+      ? JSON.stringify(error.response.data, null, 2)
+      : error instanceof Error ? error.message : String(error);
+    getLogger().error('Failed to load existing tasks, treating every action item as new', { error: errorMessage });
+    return [];
+  }
+};
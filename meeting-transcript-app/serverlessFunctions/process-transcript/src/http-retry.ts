@@ -0,0 +1,151 @@
+import axios from 'axios';
+import { getLogger } from './logger.js';
+
+export type RetryPolicy = {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export type RetryOptions = {
+  label: string;
+  // Timeouts are retried for Twenty, but AI calls move on to the next fallback provider instead.
+  retryTimeouts?: boolean;
+  // A request that creates a record is only retried when it cannot have been processed, i.e. on
+  // 429 or when the connection was never made. Otherwise a lost response would create it twice.
+  idempotent?: boolean;
+  policy?: RetryPolicy;
+};
+
+export type ConcurrencyLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN', 'ERR_NETWORK']);
+const CONNECT_ERROR_CODES = new Set(['ECONNREFUSED', 'EAI_AGAIN']);
+const TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT']);
+const MAX_RETRY_AFTER_MS = 60000;
+
+const parseInteger = (value: string | undefined, fallback: number, name: string, min: number): number => {
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`${name} must be an integer of at least ${min}, got "${value}"`);
+  }
+  return parsed;
+};
+
+export const getRetryPolicy = (): RetryPolicy => ({
+  maxRetries: parseInteger(process.env.HTTP_MAX_RETRIES, 3, 'HTTP_MAX_RETRIES', 0),
+  baseDelayMs: parseInteger(process.env.HTTP_RETRY_BASE_DELAY_MS, 500, 'HTTP_RETRY_BASE_DELAY_MS', 1),
+  maxDelayMs: parseInteger(process.env.HTTP_RETRY_MAX_DELAY_MS, 10000, 'HTTP_RETRY_MAX_DELAY_MS', 1),
+});
+
+export const getPositiveIntegerEnv = (name: string, fallback: number): number =>
+  parseInteger(process.env[name], fallback, name, 1);
+
+const getErrorField = (error: unknown, field: string): unknown =>
+  typeof error === 'object' && error !== null ? (error as Record<string, unknown>)[field] : undefined;
+
+const getErrorStatus = (error: unknown): number | undefined => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.status;
+  }
+  const status = getErrorField(error, 'status');
+  return typeof status === 'number' ? status : undefined;
+};
+
+const isTimeoutError = (error: unknown): boolean =>
+  TIMEOUT_CODES.has(String(getErrorField(error, 'code'))) ||
+  getErrorField(error, 'name') === 'APIConnectionTimeoutError';
+
+const isRetryableError = (error: unknown, retryTimeouts: boolean, idempotent: boolean): boolean => {
+  const status = getErrorStatus(error);
+  if (!idempotent) {
+    return status === 429 || (status === undefined && CONNECT_ERROR_CODES.has(String(getErrorField(error, 'code'))));
+  }
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+  if (isTimeoutError(error)) {
+    return retryTimeouts;
+  }
+  return (
+    RETRYABLE_NETWORK_CODES.has(String(getErrorField(error, 'code'))) ||
+    getErrorField(error, 'name') === 'APIConnectionError'
+  );
+};
+
+// Retry-After is either a number of seconds or an HTTP date.
+const getRetryAfterMs = (error: unknown, now: number): number | null => {
+  const headers = axios.isAxiosError(error) ? error.response?.headers : getErrorField(error, 'headers');
+  const value = typeof headers === 'object' && headers !== null
+    ? (headers as Record<string, unknown>)['retry-after']
+    : undefined;
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const policy = options.policy ?? getRetryPolicy();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.maxRetries || !isRetryableError(error, options.retryTimeouts ?? true, options.idempotent ?? true)) {
+        throw error;
+      }
+
+      const retryAfterMs = getRetryAfterMs(error, Date.now());
+      if (retryAfterMs !== null && retryAfterMs > MAX_RETRY_AFTER_MS) {
+        throw error;
+      }
+
+      // Full jitter keeps parallel requests from retrying in lockstep.
+      const backoffMs = Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+      const delayMs = Math.round(Math.max(backoffMs, retryAfterMs ?? 0));
+      getLogger().warn(`${options.label} failed, retrying`, {
+        status: getErrorStatus(error) ?? getErrorField(error, 'code') ?? 'network error',
+        retry: attempt + 1,
+        maxRetries: policy.maxRetries,
+        delayMs,
+      });
+      await sleep(delayMs);
+    }
+  }
+};
+
+export const createConcurrencyLimiter = (maxConcurrent: number): ConcurrencyLimiter => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async (task) => {
+    if (active >= maxConcurrent) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      // A finished task hands its slot straight to the next waiting one.
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+};
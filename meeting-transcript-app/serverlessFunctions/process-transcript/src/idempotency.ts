@@ -0,0 +1,220 @@
+import { createHash } from 'node:crypto';
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+import axios from 'axios';
+import { fetchAllGraphQLPages, requestTwenty, type RecordTarget } from './twenty-api.js';
+
+export type TaskSource = 'action item' | 'commitment';
+
+export type PlannedTaskCounts = {
+  actionItems: number;
+  commitments: number;
+};
+
+export type PreviousRunTask = {
+  id: string;
+  source: TaskSource;
+  index: number;
+};
+
+export type PreviousRun = {
+  noteId: string;
+  linkedTargets: RecordTarget[];
+  plannedTasks: PlannedTaskCounts | null;
+  tasks: PreviousRunTask[];
+  // The plan stored by the first attempt, so that a resumed run writes exactly the same tasks.
+  plan: unknown;
+  isComplete: boolean;
+};
+
+type PreviousRunNoteNode = {
+  id: string;
+  bodyV2?: { markdown?: string | null } | null;
+  noteTargets?: {
+    edges?: {
+      node: { personId?: string | null; companyId?: string | null; opportunityId?: string | null };
+    }[];
+  } | null;
+};
+
+type IdempotencyInput = {
+  transcript: string;
+  meetingTitle?: string;
+  meetingDate?: string;
+  relatedPersonId?: string;
+  relatedCompanyId?: string;
+  relatedOpportunityId?: string;
+  idempotencyKey?: string;
+};
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+const RUN_MARKER_PREFIX = 'Transcript run:';
+const RUN_PLAN_PATTERN = /`run plan: ([A-Za-z0-9+/=]+)`/;
+
+export const resolveIdempotencyKey = (input: IdempotencyInput): string => {
+  if (input.idempotencyKey !== undefined) {
+    if (typeof input.idempotencyKey !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(input.idempotencyKey)) {
+      throw new Error(
+        'idempotencyKey must be 1-128 characters of letters, digits, ".", "_", ":" or "-"',
+      );
+    }
+    return input.idempotencyKey;
+  }
+
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        input.transcript,
+        input.meetingTitle ?? '',
+        input.meetingDate ?? '',
+        input.relatedPersonId ?? '',
+        ...(input.relatedCompanyId || input.relatedOpportunityId
+          ? [input.relatedCompanyId ?? '', input.relatedOpportunityId ?? '']
+          : []),
+      ]),
+    )
+    .digest('hex')
+    .slice(0, 32);
+};
+
+// The plan is kept in a code span, compressed, because Twenty keeps code spans as they are when
+// it re-saves the note's markdown.
+export const formatNoteRunMarker = (
+  idempotencyKey: string,
+  plannedTasks: PlannedTaskCounts,
+  plan: unknown,
+): string =>
+  `*${RUN_MARKER_PREFIX} ${idempotencyKey} · ${plannedTasks.actionItems} action items, ${plannedTasks.commitments} commitments*\n\n` +
+  `\`run plan: ${deflateRawSync(JSON.stringify(plan)).toString('base64')}\``;
+
+export const formatTaskRunMarker = (
+  idempotencyKey: string,
+  source: TaskSource,
+  index: number,
+  total: number,
+): string => `*${RUN_MARKER_PREFIX} ${idempotencyKey} · ${source} ${index + 1}/${total}*`;
+
+const parsePlannedTasks = (markdown: string): PlannedTaskCounts | null => {
+  const match = /· (\d+) action items, (\d+) commitments\*/.exec(markdown);
+  if (!match) {
+    return null;
+  }
+  return { actionItems: Number(match[1]), commitments: Number(match[2]) };
+};
+
+const parseRunPlan = (markdown: string): unknown => {
+  const match = RUN_PLAN_PATTERN.exec(markdown);
+  if (!match?.[1]) {
+    return null;
+  }
+  try {
+    return JSON.parse(inflateRawSync(Buffer.from(match[1], 'base64')).toString('utf8'));
+  } catch {
+    return null;
+  }
+};
+
+const parseTaskRunMarker = (
+  taskId: string,
+  markdown: string,
+  idempotencyKey: string,
+): PreviousRunTask | null => {
+  const match = new RegExp(
+    `${RUN_MARKER_PREFIX} ${idempotencyKey.replace(/[.]/g, '\\.')} · (action item|commitment) (\\d+)/\\d+`,
+  ).exec(markdown);
+  if (!match) {
+    return null;
+  }
+  return { id: taskId, source: match[1] as TaskSource, index: Number(match[2]) - 1 };
+};
+
+export const findPreviousRun = async (
+  idempotencyKey: string,
+): Promise<PreviousRun | null> => {
+  const markerFilter = {
+    bodyV2: { markdown: { like: `%${RUN_MARKER_PREFIX} ${idempotencyKey} ·%` } },
+  };
+
+  const graphqlQuery = {
+    query: `
+      query FindTranscriptRun($noteFilter: NoteFilterInput) {
+        notes(filter: $noteFilter, first: 5) {
+          edges {
+            node {
+              id
+              bodyV2 {
+                markdown
+              }
+              noteTargets {
+                edges {
+                  node {
+                    personId
+                    companyId
+                    opportunityId
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    `,
+    variables: { noteFilter: markerFilter },
+  };
+
+  try {
+    const response = await requestTwenty('post', '/graphql', graphqlQuery);
+
+    const noteEdges: { node: PreviousRunNoteNode }[] = response.data?.data?.notes?.edges || [];
+    const noteNode = noteEdges
+      .map((edge) => edge.node)
+      .find((node) =>
+        (node.bodyV2?.markdown || '').includes(`${RUN_MARKER_PREFIX} ${idempotencyKey} ·`),
+      );
+    if (!noteNode) {
+      return null;
+    }
+
+    const plannedTasks = parsePlannedTasks(noteNode.bodyV2?.markdown || '');
+    const linkedTargets: RecordTarget[] = (noteNode.noteTargets?.edges || []).flatMap((edge) => [
+      ...(edge.node.personId ? [{ kind: 'person' as const, id: edge.node.personId }] : []),
+      ...(edge.node.companyId ? [{ kind: 'company' as const, id: edge.node.companyId }] : []),
+      ...(edge.node.opportunityId ? [{ kind: 'opportunity' as const, id: edge.node.opportunityId }] : []),
+    ]);
+
+    // A run can leave more tasks than one page holds, so all pages are loaded.
+    const taskNodes = await fetchAllGraphQLPages<{ id: string; bodyV2?: { markdown?: string | null } | null }>(
+      'tasks',
+      'id bodyV2 { markdown }',
+      { inputType: 'TaskFilterInput', value: markerFilter },
+    );
+    const tasks: PreviousRunTask[] = [];
+    for (const node of taskNodes) {
+      const task = parseTaskRunMarker(node.id, node.bodyV2?.markdown || '', idempotencyKey);
+      if (task && !tasks.some((t) => t.source === task.source && t.index === task.index)) {
+        tasks.push(task);
+      }
+    }
+
+    const isComplete =
+      plannedTasks !== null &&
+      tasks.filter((t) => t.source === 'action item').length >= plannedTasks.actionItems &&
+      tasks.filter((t) => t.source === 'commitment').length >= plannedTasks.commitments;
+
+    return {
+      noteId: noteNode.id,
+      linkedTargets,
+      plannedTasks,
+      tasks,
+      plan: parseRunPlan(noteNode.bodyV2?.markdown || ''),
+      isComplete,
+    };
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const errorMessage = error.response?.data
+        ? JSON.stringify(error.response.data, null, 2)
+        : error.message;
+      throw new Error(`Failed to look up previous run "${idempotencyKey}": ${errorMessage}`);
+    }
+    throw error;
+  }
+};
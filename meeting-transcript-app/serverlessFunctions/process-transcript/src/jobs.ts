@@ -0,0 +1,211 @@
+import { randomUUID } from 'node:crypto';
+import { type LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { Agent } from 'node:https';
+import { isIP, type LookupFunction } from 'node:net';
+import axios from 'axios';
+import { withRetry } from './http-retry.js';
+import { getLogger } from './logger.js';
+import { signWebhookBody } from './webhook-auth.js';
+
+export type JobStage = 'queued' | 'analyzing' | 'writing note' | 'writing tasks' | 'completed' | 'failed';
+
+export type JobProgress = {
+  stage: JobStage;
+  tasksDone?: number;
+  tasksTotal?: number;
+};
+
+export type ProgressReporter = (progress: JobProgress) => void;
+
+export type CallbackDelivery = {
+  delivered: boolean;
+  error?: string;
+};
+
+export type Job = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  progress: JobProgress;
+  result?: unknown;
+  error?: string;
+  callbackUrl?: string;
+  callback?: CallbackDelivery;
+};
+
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+const MAX_JOBS = 1000;
+const CALLBACK_TIMEOUT_MS = 10000;
+
+// Kept per function instance: a job can only be looked up on the instance that runs it.
+const jobs = new Map<string, Job>();
+
+const isFinished = (job: Job): boolean => job.progress.stage === 'completed' || job.progress.stage === 'failed';
+
+// Jobs that are still running are never pruned, so their status stays available until they finish.
+const pruneJobs = (now: number): void => {
+  for (const [id, job] of jobs) {
+    if (isFinished(job) && now - Date.parse(job.updatedAt) > JOB_RETENTION_MS) {
+      jobs.delete(id);
+    }
+  }
+  for (const [id, job] of jobs) {
+    if (jobs.size < MAX_JOBS) {
+      break;
+    }
+    if (isFinished(job)) {
+      jobs.delete(id);
+    }
+  }
+};
+
+// Loopback, link-local and private addresses, so that a callback cannot reach the function's own network.
+const isPrivateAddress = (address: string): boolean => {
+  const host = address.replace(/^\[|\]$/g, '').toLowerCase();
+  if (isIP(host) === 4) {
+    const [a = 0, b = 0] = host.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+  }
+  if (isIP(host) === 6) {
+    // IPv4-mapped addresses; URL parsing turns ::ffff:192.168.1.1 into ::ffff:c0a8:101.
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(host);
+    if (mapped?.[1]) {
+      return isPrivateAddress(mapped[1]);
+    }
+    const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(host);
+    if (mappedHex?.[1] && mappedHex[2]) {
+      const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+  }
+  return host === 'localhost' || host.endsWith('.localhost');
+};
+
+const getAllowedCallbackHosts = (): string[] =>
+  (process.env.CALLBACK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter((host) => host !== '');
+
+export const validateCallbackUrl = (value: unknown): string | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    throw new Error('callbackUrl must be a valid URL');
+  }
+  if (url.protocol !== 'https:') {
+    throw new Error('callbackUrl must use https');
+  }
+  const allowedHosts = getAllowedCallbackHosts();
+  if (allowedHosts.length > 0 && !allowedHosts.includes(url.hostname.toLowerCase())) {
+    throw new Error('callbackUrl host is not in CALLBACK_ALLOWED_HOSTS');
+  }
+  if (isPrivateAddress(url.hostname)) {
+    throw new Error('callbackUrl must not point to a loopback, link-local or private address');
+  }
+  return url.toString();
+};
+
+// Checked again before delivery, because a public host name can resolve to a private address.
+const resolveCallbackAddress = async (callbackUrl: string): Promise<LookupAddress> => {
+  const host = new URL(callbackUrl).hostname.replace(/^\[|\]$/g, '');
+  const family = isIP(host);
+  const addresses = family !== 0 ? [{ address: host, family }] : await lookup(host, { all: true });
+  const [address] = addresses;
+  if (!address || addresses.some((entry) => isPrivateAddress(entry.address))) {
+    throw new Error('callbackUrl resolves to a loopback, link-local or private address');
+  }
+  return address;
+};
+
+// Connects to the address that was checked, so that a second DNS answer cannot point elsewhere.
+const createPinnedAgent = (pinned: LookupAddress): Agent => {
+  const pinnedLookup = ((_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [pinned]);
+    } else {
+      callback(null, pinned.address, pinned.family);
+    }
+  }) as LookupFunction;
+  return new Agent({ lookup: pinnedLookup });
+};
+
+export const createJob = (callbackUrl?: string): Job => {
+  const now = new Date();
+  pruneJobs(now.getTime());
+
+  const job: Job = {
+    id: randomUUID(),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    progress: { stage: 'queued' },
+    ...(callbackUrl && { callbackUrl }),
+  };
+  jobs.set(job.id, job);
+  return job;
+};
+
+export const getJob = (id: string): Job | undefined => jobs.get(id);
+
+export const createProgressReporter = (job: Job): ProgressReporter => (progress) => {
+  job.progress = progress;
+  job.updatedAt = new Date().toISOString();
+};
+
+const deliverCallback = async (job: Job, callbackUrl: string): Promise<CallbackDelivery> => {
+  const body = JSON.stringify({
+    jobId: job.id,
+    stage: job.progress.stage,
+    result: job.result,
+    ...(job.error && { error: job.error }),
+  });
+
+  try {
+    const httpsAgent = createPinnedAgent(await resolveCallbackAddress(callbackUrl));
+    await withRetry(
+      () =>
+        axios.post(callbackUrl, body, {
+          headers: { 'Content-Type': 'application/json', ...signWebhookBody(body) },
+          timeout: CALLBACK_TIMEOUT_MS,
+          // A redirect or a proxy would connect to an address that was never checked.
+          httpsAgent,
+          maxRedirects: 0,
+          proxy: false,
+        }),
+      { label: `Callback for job ${job.id}` },
+    );
+    getLogger().info('Job result delivered to callback URL', { jobId: job.id });
+    return { delivered: true };
+  } catch (error) {
+    const errorMessage = axios.isAxiosError(error)
+      ? `${error.response?.status ?? error.code ?? 'network error'}: ${error.message}`
+      : error instanceof Error ? error.message : String(error);
+    getLogger().error('Failed to deliver job result to callback URL', { jobId: job.id, error: errorMessage });
+    return { delivered: false, error: errorMessage };
+  }
+};
+
+export const finishJob = async (
+  job: Job,
+  result: { success: boolean; status: string; error?: unknown },
+): Promise<void> => {
+  const failed = !result.success && result.status !== 'partial';
+  job.result = result;
+  job.progress = { ...job.progress, stage: failed ? 'failed' : 'completed' };
+  if (failed && typeof result.error === 'string') {
+    job.error = result.error;
+  }
+  job.updatedAt = new Date().toISOString();
+
+  if (job.callbackUrl) {
+    job.callback = await deliverCallback(job, job.callbackUrl);
+    job.updatedAt = new Date().toISOString();
+  }
+};
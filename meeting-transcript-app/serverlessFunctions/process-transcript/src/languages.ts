@@ -0,0 +1,234 @@
+export type DetectedLanguage = {
+  code: string;
+  confidence: number;
+};
+
+export type OutputLabels = {
+  headings: Record<string, string>;
+  tasks: string;
+  assignedTo: (name: string) => string;
+  unassigned: string;
+  due: (date: string) => string;
+  closed: string;
+  generatedFrom: (language: string | null) => string;
+  calendarEvent: string;
+  meetingNotes: (date: string) => string;
+  resolvedDate: (date: string, expression: string) => string;
+  dueLabel: string;
+  unresolvedDate: (expression: string) => string;
+  relatedNote: (noteId: string) => string;
+  mentionedAt: (timestamp: string) => string;
+  taskChange: (completed: boolean, meeting: string) => string;
+  commitmentFrom: (person: string) => string;
+  followUp: (commitment: string) => string;
+};
+
+export const UNDETERMINED_LANGUAGE = 'und';
+export const SOURCE_LANGUAGE = 'source';
+
+const MIN_STOPWORD_HITS = 5;
+
+// Frequent function words per language. Words shared by two languages still count for both,
+// the other words decide between them.
+const STOPWORDS: Record<string, Set<string>> = {
+  en: new Set('the and to of is that we you it for on will this with be are have can not so what do about at our they next'.split(' ')),
+  es: new Set('el la de que y en los las es por para con una un no se lo del vamos tenemos pero como esta este muy mas también hay sí'.split(' ')),
+  de: new Set('der die das und ist nicht ich wir sie es zu den mit auf für ein eine dem auch noch bis wird werden haben dass aber oder kann'.split(' ')),
+  fr: new Set('le la les et est de des que nous vous pour pas une un dans sur avec ce cette il elle on qui mais au du sont faire'.split(' ')),
+};
+
+const ENGLISH_LABELS: OutputLabels = {
+  headings: {},
+  tasks: 'Tasks',
+  assignedTo: (name) => `assigned to ${name}`,
+  unassigned: 'unassigned',
+  due: (date) => `due ${date}`,
+  closed: 'closed',
+  generatedFrom: (language) => `Generated from meeting transcript${language ? ` (${language})` : ''}`,
+  calendarEvent: 'Calendar event',
+  meetingNotes: (date) => `Meeting Notes - ${date}`,
+  resolvedDate: (date, expression) => `${date} (from "${expression}")`,
+  dueLabel: 'Due',
+  unresolvedDate: (expression) => `"${expression}" (could not be resolved to a date)`,
+  relatedNote: (noteId) => `*Related to meeting note: ${noteId}*`,
+  mentionedAt: (timestamp) => `*Mentioned at ${timestamp} in the recording*`,
+  taskChange: (completed, meeting) => `**${completed ? 'Completed' : 'Updated'} in ${meeting}:**`,
+  commitmentFrom: (person) => `Commitment from ${person}:`,
+  followUp: (commitment) => `Follow up: ${commitment}`,
+};
+
+const LABELS: Record<string, OutputLabels> = {
+  en: ENGLISH_LABELS,
+  es: {
+    headings: {
+      'Summary': 'Resumen',
+      'Attendees': 'Asistentes',
+      'Key Points': 'Puntos clave',
+      'Decisions': 'Decisiones',
+      'Risks and Blockers': 'Riesgos y bloqueos',
+      'Open Questions': 'Preguntas abiertas',
+      'Next Meeting': 'Próxima reunión',
+      'Call Summary': 'Resumen de la llamada',
+      'Discussion': 'Conversación',
+      'Agreements': 'Acuerdos',
+      'Objections and Risks': 'Objeciones y riesgos',
+      'Updates': 'Novedades',
+      'Blockers': 'Bloqueos',
+      'Concerns': 'Inquietudes',
+      'Next 1:1': 'Próxima reunión 1:1',
+      'Interviewers': 'Entrevistadores',
+      'Highlights': 'Puntos destacados',
+      'Outcome': 'Resultado',
+      'Next Step': 'Siguiente paso',
+    },
+    tasks: 'Tareas',
+    assignedTo: (name) => `asignada a ${name}`,
+    unassigned: 'sin asignar',
+    due: (date) => `vence el ${date}`,
+    closed: 'cerrada',
+    generatedFrom: (language) => `Generado a partir de la transcripción de la reunión${language ? ` (${language})` : ''}`,
+    calendarEvent: 'Evento del calendario',
+    meetingNotes: (date) => `Notas de la reunión - ${date}`,
+    resolvedDate: (date, expression) => `${date} (de "${expression}")`,
+    dueLabel: 'Vence',
+    unresolvedDate: (expression) => `"${expression}" (no se pudo convertir en una fecha)`,
+    relatedNote: (noteId) => `*Relacionada con la nota de la reunión: ${noteId}*`,
+    mentionedAt: (timestamp) => `*Mencionada en el minuto ${timestamp} de la grabación*`,
+    taskChange: (completed, meeting) => `**${completed ? 'Completada' : 'Actualizada'} en ${meeting}:**`,
+    commitmentFrom: (person) => `Compromiso de ${person}:`,
+    followUp: (commitment) => `Seguimiento: ${commitment}`,
+  },
+  de: {
+    headings: {
+      'Summary': 'Zusammenfassung',
+      'Attendees': 'Teilnehmende',
+      'Key Points': 'Kernpunkte',
+      'Decisions': 'Entscheidungen',
+      'Risks and Blockers': 'Risiken und Blocker',
+      'Open Questions': 'Offene Fragen',
+      'Next Meeting': 'Nächstes Meeting',
+      'Call Summary': 'Zusammenfassung des Gesprächs',
+      'Discussion': 'Diskussion',
+      'Agreements': 'Vereinbarungen',
+      'Objections and Risks': 'Einwände und Risiken',
+      'Updates': 'Neuigkeiten',
+      'Blockers': 'Blocker',
+      'Concerns': 'Bedenken',
+      'Next 1:1': 'Nächstes 1:1',
+      'Interviewers': 'Interviewende',
+      'Highlights': 'Highlights',
+      'Outcome': 'Ergebnis',
+      'Next Step': 'Nächster Schritt',
+    },
+    tasks: 'Aufgaben',
+    assignedTo: (name) => `zugewiesen an ${name}`,
+    unassigned: 'nicht zugewiesen',
+    due: (date) => `fällig am ${date}`,
+    closed: 'erledigt',
+    generatedFrom: (language) => `Aus dem Meeting-Transkript erstellt${language ? ` (${language})` : ''}`,
+    calendarEvent: 'Kalendertermin',
+    meetingNotes: (date) => `Meeting-Notizen - ${date}`,
+    resolvedDate: (date, expression) => `${date} (aus "${expression}")`,
+    dueLabel: 'Fällig',
+    unresolvedDate: (expression) => `"${expression}" (konnte nicht in ein Datum umgewandelt werden)`,
+    relatedNote: (noteId) => `*Gehört zur Meeting-Notiz: ${noteId}*`,
+    mentionedAt: (timestamp) => `*Erwähnt bei ${timestamp} in der Aufnahme*`,
+    taskChange: (completed, meeting) => `**${completed ? 'Erledigt' : 'Aktualisiert'} in ${meeting}:**`,
+    commitmentFrom: (person) => `Zusage von ${person}:`,
+    followUp: (commitment) => `Nachfassen: ${commitment}`,
+  },
+  fr: {
+    headings: {
+      'Summary': 'Résumé',
+      'Attendees': 'Participants',
+      'Key Points': 'Points clés',
+      'Decisions': 'Décisions',
+      'Risks and Blockers': 'Risques et blocages',
+      'Open Questions': 'Questions ouvertes',
+      'Next Meeting': 'Prochaine réunion',
+      'Call Summary': "Résumé de l'appel",
+      'Discussion': 'Discussion',
+      'Agreements': 'Accords',
+      'Objections and Risks': 'Objections et risques',
+      'Updates': 'Avancement',
+      'Blockers': 'Blocages',
+      'Concerns': "Points d'attention",
+      'Next 1:1': 'Prochain 1:1',
+      'Interviewers': 'Intervieweurs',
+      'Highlights': 'Points forts',
+      'Outcome': 'Résultat',
+      'Next Step': 'Prochaine étape',
+    },
+    tasks: 'Tâches',
+    assignedTo: (name) => `assignée à ${name}`,
+    unassigned: 'non assignée',
+    due: (date) => `échéance ${date}`,
+    closed: 'terminée',
+    generatedFrom: (language) => `Généré à partir de la transcription de la réunion${language ? ` (${language})` : ''}`,
+    calendarEvent: 'Événement du calendrier',
+    meetingNotes: (date) => `Notes de réunion - ${date}`,
+    resolvedDate: (date, expression) => `${date} (d'après "${expression}")`,
+    dueLabel: 'Échéance',
+    unresolvedDate: (expression) => `"${expression}" (impossible à convertir en date)`,
+    relatedNote: (noteId) => `*Liée à la note de réunion : ${noteId}*`,
+    mentionedAt: (timestamp) => `*Mentionnée à ${timestamp} dans l'enregistrement*`,
+    taskChange: (completed, meeting) => `**${completed ? 'Terminée' : 'Mise à jour'} lors de ${meeting} :**`,
+    commitmentFrom: (person) => `Engagement de ${person} :`,
+    followUp: (commitment) => `Suivi : ${commitment}`,
+  },
+};
+
+const getBaseLanguage = (code: string): string => code.split('-')[0]?.toLowerCase() ?? code;
+
+export const detectLanguage = (text: string): DetectedLanguage => {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const hits = Object.entries(STOPWORDS).map(([code, stopwords]) => ({
+    code,
+    count: words.filter((word) => stopwords.has(word)).length,
+  }));
+  hits.sort((a, b) => b.count - a.count);
+
+  const [best, second] = hits;
+  if (!best || best.count < MIN_STOPWORD_HITS) {
+    return { code: UNDETERMINED_LANGUAGE, confidence: 0 };
+  }
+  const confidence = best.count / (best.count + (second?.count ?? 0));
+  return { code: best.code, confidence: Math.round(confidence * 100) / 100 };
+};
+
+export const validateOutputLanguage = (value: unknown, name: string): string => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`${name} must be a language code such as "en" or "de", or "${SOURCE_LANGUAGE}"`);
+  }
+  if (value === SOURCE_LANGUAGE) {
+    return value;
+  }
+  try {
+    const [canonical] = Intl.getCanonicalLocales(value);
+    return canonical ?? value;
+  } catch {
+    throw new Error(`${name} "${value}" is not a valid language code`);
+  }
+};
+
+// The payload's outputLanguage wins over OUTPUT_LANGUAGE. "source" writes in the transcript's
+// own language, or in English when that could not be detected.
+export const resolveOutputLanguage = (requested: string | undefined, detected: DetectedLanguage): string => {
+  const outputLanguage = requested ?? validateOutputLanguage(process.env.OUTPUT_LANGUAGE || SOURCE_LANGUAGE, 'OUTPUT_LANGUAGE');
+  if (outputLanguage !== SOURCE_LANGUAGE) {
+    return outputLanguage;
+  }
+  return detected.code === UNDETERMINED_LANGUAGE ? 'en' : detected.code;
+};
+
+export const getLanguageName = (code: string, inLanguage = 'en'): string => {
+  try {
+    return new Intl.DisplayNames([inLanguage], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+// Labels of languages without a translation fall back to English; the AI still writes the content
+// in the requested language.
+export const getOutputLabels = (language: string): OutputLabels => LABELS[getBaseLanguage(language)] ?? ENGLISH_LABELS;
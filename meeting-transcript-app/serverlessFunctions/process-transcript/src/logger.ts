@@ -0,0 +1,149 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export type LogEntry = {
+  timestamp: string;
+  level: LogLevel;
+  runId: string;
+  message: string;
+} & LogFields;
+
+export type StageTiming = {
+  stage: string;
+  durationMs: number;
+};
+
+export type AiUsage = {
+  provider: string;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type RunMetrics = {
+  durationMs: number;
+  stages: StageTiming[];
+  ai: AiUsage[];
+};
+
+export type RunLogger = {
+  runId: string;
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  timeStage: <T>(stage: string, operation: () => Promise<T>) => Promise<T>;
+  recordAiUsage: (usage: Omit<AiUsage, 'requests'>) => void;
+  getEntries: () => LogEntry[];
+  getMetrics: () => RunMetrics;
+};
+
+type LogConfig = {
+  level: LogLevel;
+  includeContent: boolean;
+  invalidLevel: boolean;
+};
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Fields that may carry transcript, note or task text; dropped unless LOG_INCLUDE_CONTENT is true.
+const CONTENT_FIELDS = new Set(['content', 'title', 'response']);
+
+const storage = new AsyncLocalStorage<RunLogger>();
+
+// An invalid LOG_LEVEL falls back to info instead of throwing, because the logger is created
+// before any request handling that could report the error.
+const getLogConfig = (): LogConfig => {
+  const level = (process.env.LOG_LEVEL || 'info').trim().toLowerCase();
+  const invalidLevel = !Object.hasOwn(LEVEL_ORDER, level);
+  return {
+    level: invalidLevel ? 'info' : level as LogLevel,
+    includeContent: (process.env.LOG_INCLUDE_CONTENT || '').toLowerCase() === 'true',
+    invalidLevel,
+  };
+};
+
+const redactContent = (fields: LogFields, includeContent: boolean): LogFields =>
+  includeContent
+    ? fields
+    : Object.fromEntries(Object.entries(fields).filter(([key]) => !CONTENT_FIELDS.has(key)));
+
+export const createRunLogger = (
+  options: { runId?: string; fields?: LogFields; collect?: boolean } = {},
+): RunLogger => {
+  const config = getLogConfig();
+  const runId = options.runId ?? randomUUID();
+  const entries: LogEntry[] = [];
+  const stages: StageTiming[] = [];
+  const aiUsage = new Map<string, AiUsage>();
+  const startedAt = Date.now();
+
+  const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[config.level]) {
+      return;
+    }
+    const base = { timestamp: new Date().toISOString(), level, runId, message };
+    // Spread again after the caller fields, so that they cannot replace the run id, level or message.
+    const entry: LogEntry = {
+      ...base,
+      ...options.fields,
+      ...redactContent(fields, config.includeContent),
+      ...base,
+    };
+    if (options.collect !== false) {
+      entries.push(entry);
+    }
+    (LEVEL_ORDER[level] >= LEVEL_ORDER.warn ? console.error : console.log)(JSON.stringify(entry));
+  };
+
+  if (config.invalidLevel) {
+    write('warn', `LOG_LEVEL must be one of ${Object.keys(LEVEL_ORDER).join(', ')}, using info`);
+  }
+
+  return {
+    runId,
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+    timeStage: async (stage, operation) => {
+      const stageStartedAt = Date.now();
+      try {
+        return await operation();
+      } finally {
+        const durationMs = Date.now() - stageStartedAt;
+        stages.push({ stage, durationMs });
+        write('debug', 'Stage finished', { stage, durationMs });
+      }
+    },
+    recordAiUsage: (usage) => {
+      const key = `${usage.provider}:${usage.model}`;
+      const total = aiUsage.get(key) ?? { provider: usage.provider, model: usage.model, requests: 0, inputTokens: 0, outputTokens: 0 };
+      total.requests++;
+      total.inputTokens += usage.inputTokens;
+      total.outputTokens += usage.outputTokens;
+      aiUsage.set(key, total);
+    },
+    getEntries: () => [...entries],
+    getMetrics: () => ({
+      durationMs: Date.now() - startedAt,
+      stages: [...stages],
+      ai: [...aiUsage.values()],
+    }),
+  };
+};
+
+// Used for work that runs outside of any request; its entries are not kept.
+let processLogger: RunLogger | null = null;
+
+export const getLogger = (): RunLogger =>
+  storage.getStore() ?? (processLogger ??= createRunLogger({ runId: 'process', collect: false }));
+
+// Every helper called inside `operation` logs to `logger` through getLogger(), without passing it along.
+export const runWithLogger = <T>(logger: RunLogger, operation: () => Promise<T>): Promise<T> =>
+  storage.run(logger, operation);
@@ -0,0 +1,239 @@
+import type { OutputLabels } from './languages.js';
+
+export type NoteTemplate = {
+  name: string;
+  markdown: string;
+  builtIn: boolean;
+};
+
+export type NoteSections = {
+  summary: string;
+  attendees: string[];
+  keyPoints: string[];
+  decisions: string[];
+  risks: string[];
+  openQuestions: string[];
+  nextMeeting?: string;
+};
+
+export type NoteTaskEntry = {
+  title: string;
+  assignee?: string;
+  dueDate?: string;
+  closed?: boolean;
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const DEFAULT_TEMPLATE_NAME = 'default';
+
+const BUILT_IN_TEMPLATES: Record<string, string> = {
+  default: `## Summary
+
+{{summary}}
+
+## Attendees
+
+{{attendees}}
+
+## Key Points
+
+{{keyPoints}}
+
+## Decisions
+
+{{decisions}}
+
+## Risks and Blockers
+
+{{risks}}
+
+## Open Questions
+
+{{openQuestions}}
+
+## Next Meeting
+
+{{nextMeeting}}`,
+  'sales-call': `## Call Summary
+
+{{summary}}
+
+## Attendees
+
+{{attendees}}
+
+## Discussion
+
+{{keyPoints}}
+
+## Agreements
+
+{{decisions}}
+
+## Objections and Risks
+
+{{risks}}
+
+## Open Questions
+
+{{openQuestions}}
+
+## Next Meeting
+
+{{nextMeeting}}`,
+  standup: `## Summary
+
+{{summary}}
+
+## Updates
+
+{{keyPoints}}
+
+## Blockers
+
+{{risks}}
+
+## Decisions
+
+{{decisions}}
+
+## Attendees
+
+{{attendees}}`,
+  'one-on-one': `## Summary
+
+{{summary}}
+
+## Discussion
+
+{{keyPoints}}
+
+## Decisions
+
+{{decisions}}
+
+## Concerns
+
+{{risks}}
+
+## Open Questions
+
+{{openQuestions}}
+
+## Next 1:1
+
+{{nextMeeting}}`,
+  interview: `## Summary
+
+{{summary}}
+
+## Interviewers
+
+{{attendees}}
+
+## Highlights
+
+{{keyPoints}}
+
+## Concerns
+
+{{risks}}
+
+## Open Questions
+
+{{openQuestions}}
+
+## Outcome
+
+{{decisions}}
+
+## Next Step
+
+{{nextMeeting}}`,
+};
+
+const parseCustomTemplates = (value: string | undefined): Record<string, string> => {
+  if (!value) {
+    return {};
+  }
+
+  let templates: unknown;
+  try {
+    templates = JSON.parse(value);
+  } catch {
+    throw new Error('NOTE_TEMPLATES must be a JSON object of template names to markdown');
+  }
+  if (typeof templates !== 'object' || templates === null || Array.isArray(templates)) {
+    throw new Error('NOTE_TEMPLATES must be a JSON object of template names to markdown');
+  }
+
+  for (const [name, markdown] of Object.entries(templates)) {
+    if (typeof markdown !== 'string' || markdown.trim() === '') {
+      throw new Error(`NOTE_TEMPLATES.${name} must be a non-empty markdown string`);
+    }
+  }
+  return templates as Record<string, string>;
+};
+
+// The payload's template wins over NOTE_TEMPLATE; NOTE_TEMPLATES can add templates or replace built-in ones.
+export const getNoteTemplate = (requestedName?: string): NoteTemplate => {
+  const customTemplates = parseCustomTemplates(process.env.NOTE_TEMPLATES);
+  const templates = { ...BUILT_IN_TEMPLATES, ...customTemplates };
+  const name = requestedName || process.env.NOTE_TEMPLATE || DEFAULT_TEMPLATE_NAME;
+  const markdown = templates[name];
+  if (markdown === undefined) {
+    throw new Error(`Unknown note template "${name}". Available templates: ${Object.keys(templates).join(', ')}`);
+  }
+  return { name, markdown, builtIn: !Object.hasOwn(customTemplates, name) };
+};
+
+const formatList = (items: string[]): string => items.map((item) => `- ${item}`).join('\n');
+
+const renderPlaceholder = (field: string, sections: NoteSections): string => {
+  const value = Object.hasOwn(sections, field) ? sections[field as keyof NoteSections] : undefined;
+  if (Array.isArray(value)) {
+    return formatList(value);
+  }
+  return value ?? '';
+};
+
+// A section is everything from one "## " heading to the next. It is left out
+// when it has placeholders and all of them are empty.
+const splitIntoSections = (markdown: string): string[] => markdown.split(/^(?=## )/m);
+
+// Headings of built-in templates are translated into the output language; custom templates are
+// written by the workspace and kept as they are.
+const translateHeadings = (template: NoteTemplate, labels: OutputLabels): string =>
+  template.builtIn
+    ? template.markdown.replace(/^## (.+)$/gm, (line, heading: string) => {
+      const translated = labels.headings[heading];
+      return translated ? `## ${translated}` : line;
+    })
+    : template.markdown;
+
+export const renderNoteTemplate = (template: NoteTemplate, sections: NoteSections, labels: OutputLabels): string =>
+  splitIntoSections(translateHeadings(template, labels))
+    .flatMap((section) => {
+      const placeholders = [...section.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1] ?? '');
+      const rendered = placeholders.map((field) => renderPlaceholder(field, sections));
+      if (placeholders.length > 0 && rendered.every((value) => value.trim() === '')) {
+        return [];
+      }
+      return [section.replace(PLACEHOLDER_PATTERN, (_, field: string) => renderPlaceholder(field, sections)).trim()];
+    })
+    .filter((section) => section !== '')
+    .join('\n\n');
+
+const formatTaskEntry = (task: NoteTaskEntry, labels: OutputLabels): string => {
+  if (task.closed) {
+    return `- [x] ${task.title} (${labels.closed})`;
+  }
+  const details = [
+    task.assignee ? labels.assignedTo(task.assignee) : labels.unassigned,
+    ...(task.dueDate ? [labels.due(task.dueDate)] : []),
+  ];
+  return `- [ ] ${task.title} (${details.join(', ')})`;
+};
+
+export const formatNoteTaskList = (tasks: NoteTaskEntry[], labels: OutputLabels): string =>
+  tasks.length === 0 ? '' : `## ${labels.tasks}\n\n${tasks.map((task) => formatTaskEntry(task, labels)).join('\n')}`;
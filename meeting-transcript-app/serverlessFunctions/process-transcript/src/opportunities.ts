@@ -0,0 +1,56 @@
+import axios from 'axios';
+import { getLogger } from './logger.js';
+import { fetchAllGraphQLPages } from './twenty-api.js';
+
+export type OpenOpportunity = {
+  id: string;
+  name: string;
+  companyId: string;
+  stage: string;
+};
+
+export const getClosedOpportunityStages = (): string[] =>
+  (process.env.CLOSED_OPPORTUNITY_STAGES || 'CUSTOMER')
+    .split(',')
+    .map((stage) => stage.trim().toUpperCase())
+    .filter((stage) => stage !== '');
+
+export const loadOpenOpportunities = async (
+  companyIds: string[],
+): Promise<OpenOpportunity[]> => {
+  if (companyIds.length === 0) {
+    return [];
+  }
+
+  const closedStages = getClosedOpportunityStages();
+
+  try {
+    const nodes = await fetchAllGraphQLPages<{
+      id: string;
+      name?: string | null;
+      stage?: string | null;
+      companyId?: string | null;
+    }>('opportunities', 'id name stage companyId', {
+      inputType: 'OpportunityFilterInput',
+      value: { companyId: { in: companyIds } },
+    });
+
+    const openOpportunities = nodes
+      .filter((node) => node.companyId && !closedStages.includes((node.stage || '').toUpperCase()))
+      .map((node) => ({
+        id: node.id,
+        name: node.name || '',
+        companyId: node.companyId as string,
+        stage: node.stage || '',
+      }));
+
+    getLogger().info('Open opportunities loaded', { opportunities: openOpportunities.length, companies: companyIds.length });
+    return openOpportunities;
+  } catch (error) {
+    const errorMessage = axios.isAxiosError(error) && error.response?.data
+      ? JSON.stringify(error.response.data, null, 2)
+      : error instanceof Error ? error.message : String(error);
+    getLogger().error('Failed to load opportunities, skipping opportunity links', { error: errorMessage });
+    return [];
+  }
+};
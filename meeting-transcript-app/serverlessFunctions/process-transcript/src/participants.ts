@@ -0,0 +1,273 @@
+import axios from 'axios';
+import { matchName, type Directory, type DirectoryEntry, type NameResolution } from './directory.js';
+import { getLogger } from './logger.js';
+import { type RunLedger } from './run-ledger.js';
+import { requestTwenty, type RecordTarget } from './twenty-api.js';
+
+export type Participant = {
+  name: string;
+  email?: string;
+  company?: string;
+  // Known when the participant comes from a calendar event that Twenty already matched.
+  personId?: string;
+  workspaceMemberId?: string;
+};
+
+export type ParticipantStatus = 'matched' | 'created' | 'would create' | 'unresolved' | 'workspace member';
+
+export type ParticipantPerson = {
+  name: string;
+  email?: string;
+  status: ParticipantStatus;
+  personId?: string;
+  companyId?: string;
+  companyCreated?: boolean;
+  reason?: string;
+};
+
+type CompanyLink = {
+  id?: string;
+  name: string;
+  domain?: string;
+  created: boolean;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PERSONAL_EMAIL_DOMAINS = new Set([
+  'aol.com',
+  'gmail.com',
+  'gmx.com',
+  'googlemail.com',
+  'hotmail.com',
+  'icloud.com',
+  'live.com',
+  'me.com',
+  'outlook.com',
+  'proton.me',
+  'protonmail.com',
+  'yahoo.com',
+]);
+
+export const normalizeParticipants = (value: unknown): Participant[] => {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('participants must be an array');
+  }
+
+  return value.map((entry, index): Participant => {
+    if (typeof entry === 'string' && entry.trim() !== '') {
+      return { name: entry.trim() };
+    }
+    const { name, email, company } = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new Error(`participants[${index}] must be a name or an object with a name`);
+    }
+    if (email !== undefined && (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim()))) {
+      throw new Error(`participants[${index}].email must be a valid email address`);
+    }
+    if (company !== undefined && (typeof company !== 'string' || company.trim() === '')) {
+      throw new Error(`participants[${index}].company must be a non-empty string`);
+    }
+
+    return {
+      name: name.trim(),
+      ...(typeof email === 'string' && { email: email.trim().toLowerCase() }),
+      ...(typeof company === 'string' && { company: company.trim() }),
+    };
+  });
+};
+
+const getCompanyDomain = (email: string | undefined): string | undefined => {
+  const domain = email?.split('@')[1]?.toLowerCase();
+  return domain && !PERSONAL_EMAIL_DOMAINS.has(domain) ? domain : undefined;
+};
+
+const formatCompanyName = (domain: string): string => {
+  const root = domain.split('.')[0] ?? domain;
+  return root.charAt(0).toUpperCase() + root.slice(1);
+};
+
+const createRecord = async (
+  collection: 'people' | 'companies',
+  data: Record<string, unknown>,
+): Promise<string> => {
+  const resultKey = collection === 'people' ? 'createPerson' : 'createCompany';
+
+  try {
+    const response = await requestTwenty('post', `/rest/${collection}`, data);
+
+    const id = response.data?.data?.[resultKey]?.id;
+    if (!id) {
+      throw new Error(`Record created but ID not found in response: ${JSON.stringify(response.data)}`);
+    }
+    return id;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const errorMessage = error.response?.data
+        ? JSON.stringify(error.response.data, null, 2)
+        : error.message;
+      throw new Error(`Failed to create ${collection === 'people' ? 'person' : 'company'}: ${errorMessage}`);
+    }
+    throw error;
+  }
+};
+
+const findOrPlanCompany = async (
+  participant: Participant,
+  directory: Directory,
+): Promise<CompanyLink | null> => {
+  const domain = getCompanyDomain(participant.email);
+  const candidates = [participant.company, domain?.split('.')[0]].filter(
+    (candidate): candidate is string => !!candidate,
+  );
+
+  for (const candidate of candidates) {
+    const company = await directory.resolveCompany(candidate);
+    if (company.status === 'matched' && company.id) {
+      return { id: company.id, name: company.matchedName || candidate, created: false };
+    }
+  }
+
+  if (!participant.company && !domain) {
+    return null;
+  }
+  return {
+    name: participant.company || formatCompanyName(domain as string),
+    ...(domain && { domain }),
+    created: true,
+  };
+};
+
+// Colleagues are workspace members, not People, so they are never matched or created as People.
+// Addresses at the workspace's own domains are never used to create a person or a company either.
+export const resolveParticipantPeople = async (
+  participants: Participant[],
+  directory: Directory,
+  options: { createMissing: boolean; dryRun: boolean; ledger: RunLedger },
+): Promise<ParticipantPerson[]> => {
+  const results: ParticipantPerson[] = [];
+  const members = await directory.getWorkspaceMembers();
+  const memberIds = new Set(members.map((member) => member.id));
+  const memberEmails = new Set(members.flatMap((member) => member.emails.map((email) => email.toLowerCase())));
+  const workspaceDomains = new Set(
+    [...memberEmails].map(getCompanyDomain).filter((domain): domain is string => !!domain),
+  );
+
+  for (const participant of participants) {
+    const { email } = participant;
+    const base = { name: participant.name, ...(email && { email }) };
+
+    if (
+      (participant.workspaceMemberId && memberIds.has(participant.workspaceMemberId)) ||
+      (email && memberEmails.has(email.toLowerCase()))
+    ) {
+      results.push({ ...base, status: 'workspace member' });
+      continue;
+    }
+
+    if (participant.personId) {
+      results.push({ ...base, status: 'matched', personId: participant.personId });
+      continue;
+    }
+
+    const byEmail = email ? await directory.resolvePerson(email) : null;
+    const person = byEmail?.status === 'matched' ? byEmail : await directory.resolvePerson(participant.name);
+    if (person.status === 'matched' && person.id) {
+      results.push({ ...base, status: 'matched', personId: person.id });
+      continue;
+    }
+
+    // Only an unknown email address is trusted to mean a new person; names alone are too fuzzy.
+    if (!options.createMissing || !email || byEmail?.status !== 'not_found') {
+      results.push({
+        ...base,
+        status: 'unresolved',
+        reason: options.createMissing && !email
+          ? 'an email address is required to create a person'
+          : `person lookup was ${byEmail?.status === 'ambiguous' ? 'ambiguous' : person.status}`,
+      });
+      continue;
+    }
+
+    const domain = getCompanyDomain(email);
+    if (domain && workspaceDomains.has(domain)) {
+      results.push({ ...base, status: 'unresolved', reason: 'the email address belongs to the workspace' });
+      continue;
+    }
+
+    const company = await findOrPlanCompany(participant, directory);
+    if (options.dryRun) {
+      results.push({
+        ...base,
+        status: 'would create',
+        ...(company?.id && { companyId: company.id }),
+        ...(company?.created && { companyCreated: true }),
+      });
+      continue;
+    }
+
+    let companyId = company?.id;
+    if (company?.created) {
+      companyId = await createRecord('companies', {
+        name: company.name,
+        ...(company.domain && { domainName: { primaryLinkUrl: `https://${company.domain}` } }),
+      });
+      options.ledger.record('company', companyId);
+      // Later participants from the same domain now match this company instead of creating another.
+      await directory.addCompany({ id: companyId, name: company.name, domain: company.domain || '' });
+      getLogger().info('Company created', { companyId });
+    }
+
+    const [firstName = '', ...lastNames] = participant.name.split(/\s+/);
+    const personId = await createRecord('people', {
+      name: { firstName, lastName: lastNames.join(' ') },
+      emails: { primaryEmail: email },
+      ...(companyId && { companyId }),
+    });
+    options.ledger.record('person', personId);
+    await directory.addPerson({ id: personId, firstName, lastName: lastNames.join(' '), emails: [email] });
+    getLogger().info('Person created', { personId, ...(companyId && { companyId }) });
+
+    results.push({
+      ...base,
+      status: 'created',
+      personId,
+      ...(companyId && { companyId }),
+      ...(company?.created && { companyCreated: true }),
+    });
+  }
+
+  return results;
+};
+
+export const getParticipantTargets = (people: ParticipantPerson[]): RecordTarget[] =>
+  people.flatMap((person) =>
+    person.personId ? [{ kind: 'person' as const, id: person.personId, name: person.name }] : [],
+  );
+
+// Matches an assignee against participants whose workspace member is already known, so that
+// the calendar event's own matching wins over a name lookup.
+export const matchParticipantWorkspaceMember = (
+  name: string,
+  participants: Participant[],
+): NameResolution | null => {
+  const entries: DirectoryEntry[] = participants.flatMap((participant) => {
+    if (!participant.workspaceMemberId) {
+      return [];
+    }
+    const [firstName = '', ...lastNames] = participant.name.split(/\s+/);
+    return [{
+      id: participant.workspaceMemberId,
+      firstName,
+      lastName: lastNames.join(' '),
+      emails: participant.email ? [participant.email] : [],
+    }];
+  });
+  if (entries.length === 0) {
+    return null;
+  }
+  const match = matchName(name, 'workspaceMember', entries);
+  return match.status === 'matched' ? match : null;
+};
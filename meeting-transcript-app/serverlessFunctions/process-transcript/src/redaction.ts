@@ -0,0 +1,225 @@
+export type RedactionCategory = 'person' | 'email' | 'phone' | 'card' | 'health';
+
+export type RedactionConfig = {
+  categories: RedactionCategory[];
+  allowedValues: string[];
+  keepOutOfCrm: boolean;
+};
+
+export type RedactionReport = {
+  categories: RedactionCategory[];
+  redacted: Partial<Record<RedactionCategory, number>>;
+  keptOutOfCrm: boolean;
+};
+
+export type Redactor = {
+  redact: (text: string) => string;
+  restore: <T>(value: T) => T;
+  hasRedactions: () => boolean;
+  getReport: () => RedactionReport;
+};
+
+type RedactedValue = {
+  category: RedactionCategory;
+  value: string;
+};
+
+type Detector = {
+  category: RedactionCategory;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+};
+
+const CATEGORIES: RedactionCategory[] = ['person', 'email', 'phone', 'card', 'health'];
+
+const PLACEHOLDER_PATTERN = /\[?\b(PERSON|EMAIL|PHONE|CARD|HEALTH)_(\d+)\b\]?/g;
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}.-]+\.\p{L}{2,}/gu;
+const CARD_PATTERN = /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g;
+const PHONE_PATTERN = /(?<![\w+])(?:\+\d{7,15}|(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,5}\)[ .-]?)?\d{2,5}(?:[ .-]\d{2,5}){1,5})(?![\w-])/g;
+const DATE_LIKE_PATTERN = /^(?:\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|\d{4}[./-]\d{1,2}[./-]\d{1,2}|\d{1,3}(?:\.\d{3})+)$/;
+// English only: a condition after phrases like "diagnosed with", or one of the listed terms.
+const HEALTH_PATTERN = new RegExp(
+  [
+    String.raw`\b(?:diagnosed with|suffering from|treated for|recovering from|tested positive for)\s+[\p{L}\p{N}'-]+(?:\s+[\p{L}\p{N}'-]+){0,2}`,
+    String.raw`\b(?:cancer|tumou?r|diabetes|diabetic|pregnant|pregnancy|miscarriage|surgery|chemo(?:therapy)?|depression|anxiety disorder|bipolar|adhd|autism|hiv|covid(?:-19)?|heart attack|burnout|mental health|medical leave|sick leave|rehab|medication|prescriptions?|therapist)\b`,
+  ].join('|'),
+  'giu',
+);
+
+const passesLuhnCheck = (digits: string): boolean => {
+  let sum = 0;
+  for (const [position, char] of [...digits].reverse().entries()) {
+    let digit = Number(char);
+    if (position % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const countDigits = (value: string): number => value.replace(/\D/g, '').length;
+
+// Cards before phones, so that a card number is not redacted as a phone number.
+const DETECTORS: Detector[] = [
+  { category: 'email', pattern: EMAIL_PATTERN },
+  {
+    category: 'card',
+    pattern: CARD_PATTERN,
+    accept: (match) => {
+      const digits = match.replace(/\D/g, '');
+      return digits.length >= 13 && passesLuhnCheck(digits);
+    },
+  },
+  {
+    category: 'phone',
+    pattern: PHONE_PATTERN,
+    accept: (match) => !DATE_LIKE_PATTERN.test(match) && countDigits(match) >= 7 && countDigits(match) <= 15,
+  },
+  { category: 'health', pattern: HEALTH_PATTERN },
+];
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalizeValue = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Redaction is opt-in: without PII_REDACTION the transcript is sent as it is.
+const parseCategories = (value: string | undefined): RedactionCategory[] => {
+  if (value === undefined || value.trim() === '' || value.trim().toLowerCase() === 'none') {
+    return [];
+  }
+  if (value.trim().toLowerCase() === 'all') {
+    return CATEGORIES;
+  }
+
+  return value.split(',').map((entry) => {
+    const category = entry.trim().toLowerCase();
+    if (!CATEGORIES.includes(category as RedactionCategory)) {
+      throw new Error(`PII_REDACTION must be "none", "all" or a comma-separated list of ${CATEGORIES.join(', ')}, got "${entry.trim()}"`);
+    }
+    return category as RedactionCategory;
+  });
+};
+
+// The payload's keepRedactedOutOfCrm wins over PII_KEEP_OUT_OF_CRM.
+export const getRedactionConfig = (keepOutOfCrm?: boolean): RedactionConfig => ({
+  categories: parseCategories(process.env.PII_REDACTION),
+  allowedValues: (process.env.PII_ALLOWED_VALUES || '')
+    .split(',')
+    .map(normalizeValue)
+    .filter((value) => value !== ''),
+  keepOutOfCrm: keepOutOfCrm ?? (process.env.PII_KEEP_OUT_OF_CRM || '').toLowerCase() === 'true',
+});
+
+// Replaces personal data with placeholders such as [EMAIL_1] before text is sent to the AI provider.
+// The same value always gets the same placeholder, and a participant's first name shares the
+// placeholder of the full name. Names are matched case-sensitively, and a first name only when it is
+// capitalized, so that "Will" and "Mark" do not swallow "we will mark". restore() puts the values
+// back into the analysis: names always, other values only when they may be written to the CRM.
+export const createRedactor = (config: RedactionConfig, personNames: string[]): Redactor => {
+  const categories = new Set(config.categories);
+  const allowedValues = new Set(config.allowedValues);
+  const placeholders = new Map<string, string>();
+  const values = new Map<string, RedactedValue>();
+  const counts: Partial<Record<RedactionCategory, number>> = {};
+
+  const getPlaceholder = (category: RedactionCategory, value: string): string => {
+    const entityKey = `${category}:${normalizeValue(value)}`;
+    const existing = placeholders.get(entityKey);
+    if (existing) {
+      return existing;
+    }
+    const count = (counts[category] ?? 0) + 1;
+    counts[category] = count;
+    const placeholder = `[${category.toUpperCase()}_${count}]`;
+    placeholders.set(entityKey, placeholder);
+    values.set(placeholder, { category, value });
+    return placeholder;
+  };
+
+  const fullNames = [...new Set(personNames.map((name) => name.trim().replace(/\s+/g, ' ')).filter((name) => name !== ''))]
+    .filter((name) => !allowedValues.has(normalizeValue(name)));
+  const firstNameCounts = new Map<string, number>();
+  for (const name of fullNames) {
+    const firstName = name.split(' ')[0] ?? '';
+    firstNameCounts.set(firstName, (firstNameCounts.get(firstName) ?? 0) + 1);
+  }
+  // Spelled-out name, as written -> the full name its placeholder stands for.
+  const nameVariants = new Map<string, string>();
+  for (const name of fullNames) {
+    nameVariants.set(name, name);
+    const firstName = name.split(' ')[0] ?? '';
+    if (
+      firstName.length >= 3 &&
+      /^\p{Lu}/u.test(firstName) &&
+      firstNameCounts.get(firstName) === 1 &&
+      !allowedValues.has(normalizeValue(firstName))
+    ) {
+      nameVariants.set(firstName, name);
+    }
+  }
+  const namePattern = nameVariants.size > 0 && categories.has('person')
+    ? new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:${[...nameVariants.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+      'gu',
+    )
+    : null;
+
+  const redact = (text: string): string => {
+    let redacted = text;
+    for (const detector of DETECTORS) {
+      if (!categories.has(detector.category)) {
+        continue;
+      }
+      redacted = redacted.replace(detector.pattern, (match: string) => {
+        if (allowedValues.has(normalizeValue(match)) || (detector.accept && !detector.accept(match))) {
+          return match;
+        }
+        return getPlaceholder(detector.category, match);
+      });
+    }
+    if (namePattern) {
+      redacted = redacted.replace(namePattern, (match: string) => {
+        const fullName = nameVariants.get(match) ?? match;
+        return getPlaceholder('person', fullName);
+      });
+    }
+    return redacted;
+  };
+
+  const restoreText = (text: string): string =>
+    text.replace(PLACEHOLDER_PATTERN, (placeholder: string, category: string, count: string) => {
+      const redacted = values.get(`[${category}_${count}]`);
+      if (!redacted) {
+        return placeholder;
+      }
+      return redacted.category === 'person' || !config.keepOutOfCrm ? redacted.value : `[redacted ${redacted.category}]`;
+    });
+
+  const restoreValue = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return restoreText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(restoreValue);
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, restoreValue(field)]));
+    }
+    return value;
+  };
+
+  return {
+    redact,
+    restore: <T>(value: T): T => restoreValue(value) as T,
+    hasRedactions: () => values.size > 0,
+    getReport: () => ({
+      categories: config.categories,
+      redacted: { ...counts },
+      keptOutOfCrm: config.keepOutOfCrm,
+    }),
+  };
+};
@@ -0,0 +1,95 @@
+import axios from 'axios';
+import { getLogger } from './logger.js';
+import { requestTwenty } from './twenty-api.js';
+
+export type LedgerRecordKind = 'company' | 'person' | 'note' | 'noteTarget' | 'task' | 'taskTarget';
+
+export type LedgerRecord = {
+  kind: LedgerRecordKind;
+  id: string;
+  previousValues?: Record<string, unknown>;
+};
+
+export type RollbackResult = {
+  deleted: LedgerRecord[];
+  restored: LedgerRecord[];
+  failed: (LedgerRecord & { error: string })[];
+};
+
+export type RunLedger = {
+  record: (kind: LedgerRecordKind, id: string) => void;
+  recordUpdate: (kind: LedgerRecordKind, id: string, previousValues: Record<string, unknown>) => void;
+  getRecords: () => LedgerRecord[];
+  rollback: () => Promise<RollbackResult>;
+};
+
+const REST_COLLECTIONS: Record<LedgerRecordKind, string> = {
+  company: 'companies',
+  person: 'people',
+  note: 'notes',
+  noteTarget: 'noteTargets',
+  task: 'tasks',
+  taskTarget: 'taskTargets',
+};
+
+const revertRecord = async (record: LedgerRecord): Promise<void> => {
+  const path = `/rest/${REST_COLLECTIONS[record.kind]}/${record.id}`;
+
+  try {
+    if (record.previousValues) {
+      await requestTwenty('patch', path, record.previousValues);
+    } else {
+      await requestTwenty('delete', path);
+    }
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const errorMessage = error.response?.data
+        ? JSON.stringify(error.response.data, null, 2)
+        : error.message;
+      throw new Error(
+        `Failed to ${record.previousValues ? 'restore' : 'delete'} ${record.kind} ${record.id}: ${errorMessage}`,
+      );
+    }
+    throw error;
+  }
+};
+
+export const createRunLedger = (): RunLedger => {
+  const records: LedgerRecord[] = [];
+
+  return {
+    record: (kind, id) => {
+      records.push({ kind, id });
+    },
+    recordUpdate: (kind, id, previousValues) => {
+      if (!records.some((record) => record.kind === kind && record.id === id)) {
+        records.push({ kind, id, previousValues });
+      }
+    },
+    getRecords: () => [...records],
+    rollback: async () => {
+      const result: RollbackResult = { deleted: [], restored: [], failed: [] };
+
+      // Links are deleted before the notes and tasks they point to.
+      for (const record of [...records].reverse()) {
+        try {
+          await revertRecord(record);
+          if (record.previousValues) {
+            result.restored.push(record);
+            getLogger().info('Record restored', { kind: record.kind, id: record.id });
+          } else {
+            result.deleted.push(record);
+            getLogger().info('Record deleted', { kind: record.kind, id: record.id });
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          result.failed.push({ ...record, error: errorMessage });
+          getLogger().error('Rollback step failed', { kind: record.kind, id: record.id, error: errorMessage });
+        }
+      }
+
+      records.length = 0;
+      return result;
+    },
+  };
+};
@@ -0,0 +1,186 @@
+import axios from 'axios';
+import {
+  TASK_PRIORITIES,
+  TASK_PROGRESS_VALUES,
+  type TaskPriority,
+  type TaskProgress,
+} from './analysis-schema.js';
+import { getLogger } from './logger.js';
+import { requestTwenty } from './twenty-api.js';
+
+export type TaskFieldConfig = {
+  statusField: string;
+  priorityField: string;
+  status: Partial<Record<TaskProgress, string>>;
+  priority: Partial<Record<TaskPriority, string>>;
+};
+
+// Select option values of the workspace's task fields for each inferred priority and status.
+export type TaskFieldMapping = TaskFieldConfig & {
+  discovered: boolean;
+};
+
+type SelectOption = {
+  value: string;
+  label: string;
+};
+
+type MetadataField = {
+  name?: string;
+  type?: string;
+  options?: { value?: string; label?: string }[] | null;
+};
+
+type MetadataObject = {
+  nameSingular?: string;
+  fields?: MetadataField[];
+};
+
+const METADATA_CACHE_MS = 10 * 60 * 1000;
+
+// Twenty's standard task status options, used when the metadata cannot be loaded.
+const DEFAULT_STATUS_OPTIONS: Record<TaskProgress, string> = { todo: 'TODO', in_progress: 'IN_PROGRESS' };
+
+const STATUS_PATTERNS: Record<TaskProgress, RegExp> = {
+  todo: /^(?:to_?do|not_?started|open|backlog|new)$/,
+  in_progress: /^(?:in_?progress|doing|started|ongoing|wip)$/,
+};
+
+const PRIORITY_PATTERNS: Record<TaskPriority, RegExp> = {
+  urgent: /^(?:urgent|critical|highest|blocker|p0)$/,
+  high: /^(?:high|important|p1)$/,
+  medium: /^(?:medium|normal|moderate|p2)$/,
+  low: /^(?:low|lowest|minor|p3|p4)$/,
+};
+
+// Kept per function instance, like the Twenty request limiter.
+let cachedOptions: { loadedAt: number; fields: Map<string, SelectOption[]> } | null = null;
+
+const parseMapping = <T extends string>(value: unknown, keys: T[], name: string): Partial<Record<T, string>> => {
+  if (value === undefined) {
+    return {};
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`TASK_FIELD_MAPPING.${name} must be an object of ${keys.join(', ')} to option values`);
+  }
+  for (const [key, option] of Object.entries(value)) {
+    if (!keys.includes(key as T)) {
+      throw new Error(`TASK_FIELD_MAPPING.${name}.${key} is not one of ${keys.join(', ')}`);
+    }
+    if (typeof option !== 'string' || option.trim() === '') {
+      throw new Error(`TASK_FIELD_MAPPING.${name}.${key} must be a non-empty option value`);
+    }
+  }
+  return value as Partial<Record<T, string>>;
+};
+
+export const getTaskFieldConfig = (): TaskFieldConfig => {
+  let mapping: { status?: unknown; priority?: unknown } = {};
+  if (process.env.TASK_FIELD_MAPPING) {
+    try {
+      mapping = JSON.parse(process.env.TASK_FIELD_MAPPING);
+    } catch {
+      throw new Error('TASK_FIELD_MAPPING must be a JSON object with "status" and "priority" mappings');
+    }
+    if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) {
+      throw new Error('TASK_FIELD_MAPPING must be a JSON object with "status" and "priority" mappings');
+    }
+  }
+
+  return {
+    statusField: process.env.TASK_STATUS_FIELD || 'status',
+    priorityField: process.env.TASK_PRIORITY_FIELD || 'priority',
+    status: parseMapping(mapping.status, TASK_PROGRESS_VALUES, 'status'),
+    priority: parseMapping(mapping.priority, TASK_PRIORITIES, 'priority'),
+  };
+};
+
+const loadTaskSelectOptions = async (): Promise<Map<string, SelectOption[]>> => {
+  if (cachedOptions && Date.now() - cachedOptions.loadedAt < METADATA_CACHE_MS) {
+    return cachedOptions.fields;
+  }
+
+  const response = await requestTwenty('get', '/rest/metadata/objects');
+  const objects: MetadataObject[] = response.data?.data?.objects ?? [];
+  const task = objects.find((object) => object.nameSingular === 'task');
+  if (!task) {
+    throw new Error('The task object was not found in the workspace metadata');
+  }
+
+  const fields = new Map<string, SelectOption[]>();
+  for (const field of task.fields ?? []) {
+    if (field.name && field.type === 'SELECT') {
+      fields.set(
+        field.name,
+        (field.options ?? []).flatMap((option) =>
+          option.value ? [{ value: option.value, label: option.label || option.value }] : [],
+        ),
+      );
+    }
+  }
+  cachedOptions = { loadedAt: Date.now(), fields };
+  return fields;
+};
+
+const normalizeOption = (value: string): string => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_');
+
+// Configured values win, as long as the field has them; otherwise the option whose value or label
+// looks like the inferred one is used.
+const mapOptions = <T extends string>(
+  keys: T[],
+  patterns: Record<T, RegExp>,
+  configured: Partial<Record<T, string>>,
+  options: SelectOption[],
+  fieldName: string,
+): Partial<Record<T, string>> => {
+  const mapping: Partial<Record<T, string>> = {};
+  for (const key of keys) {
+    const configuredValue = configured[key];
+    if (configuredValue !== undefined) {
+      if (options.some((option) => option.value === configuredValue)) {
+        mapping[key] = configuredValue;
+        continue;
+      }
+      getLogger().warn('Configured task field option does not exist, ignoring it', { field: fieldName, key, option: configuredValue });
+    }
+    const match = options.find(
+      (option) => patterns[key].test(normalizeOption(option.value)) || patterns[key].test(normalizeOption(option.label)),
+    );
+    if (match) {
+      mapping[key] = match.value;
+    }
+  }
+  return mapping;
+};
+
+export const loadTaskFieldMapping = async (config: TaskFieldConfig): Promise<TaskFieldMapping> => {
+  try {
+    const fields = await loadTaskSelectOptions();
+    const statusOptions = fields.get(config.statusField) ?? [];
+    const priorityOptions = fields.get(config.priorityField) ?? [];
+    const status = mapOptions(TASK_PROGRESS_VALUES, STATUS_PATTERNS, config.status, statusOptions, config.statusField);
+    const priority = mapOptions(TASK_PRIORITIES, PRIORITY_PATTERNS, config.priority, priorityOptions, config.priorityField);
+    // A field without an "urgent" option still gets its highest priority.
+    if (!priority.urgent && priority.high) {
+      priority.urgent = priority.high;
+    }
+
+    getLogger().info('Task fields discovered', {
+      statusField: fields.has(config.statusField) ? config.statusField : null,
+      priorityField: fields.has(config.priorityField) ? config.priorityField : null,
+      status,
+      priority,
+    });
+    return { ...config, status, priority, discovered: true };
+  } catch (error) {
+    const errorMessage = axios.isAxiosError(error) && error.response?.data
+      ? JSON.stringify(error.response.data, null, 2)
+      : error instanceof Error ? error.message : String(error);
+    getLogger().warn('Failed to load task fields, using the configured or standard options', { error: errorMessage });
+    return {
+      ...config,
+      status: { ...DEFAULT_STATUS_OPTIONS, ...config.status },
+      discovered: false,
+    };
+  }
+};
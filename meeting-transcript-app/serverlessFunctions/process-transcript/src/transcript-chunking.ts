@@ -0,0 +1,129 @@
+export type ChunkingConfig = {
+  maxChunkChars: number;
+  overlapChars: number;
+};
+
+const SPEAKER_TURN_PATTERN = /^\s*(\[?\d{1,2}:\d{2}(:\d{2})?\]?\s*)?[\p{L}][\p{L}\p{M}\p{N} .'-]{0,60}:\s/u;
+const SENTENCE_BOUNDARY_PATTERN = /(?<=[.!?])\s+/;
+
+const parseNonNegativeInteger = (value: string | undefined, fallback: number, name: string): number => {
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+export const getChunkingConfig = (): ChunkingConfig => {
+  const maxChunkChars = parseNonNegativeInteger(process.env.TRANSCRIPT_CHUNK_SIZE, 24000, 'TRANSCRIPT_CHUNK_SIZE');
+  const overlapChars = parseNonNegativeInteger(process.env.TRANSCRIPT_CHUNK_OVERLAP, 1500, 'TRANSCRIPT_CHUNK_OVERLAP');
+
+  if (maxChunkChars < 1000) {
+    throw new Error('TRANSCRIPT_CHUNK_SIZE must be at least 1000 characters');
+  }
+  if (overlapChars >= maxChunkChars / 2) {
+    throw new Error('TRANSCRIPT_CHUNK_OVERLAP must be less than half of TRANSCRIPT_CHUNK_SIZE');
+  }
+
+  return { maxChunkChars, overlapChars };
+};
+
+const splitIntoTurns = (transcript: string): string[] => {
+  const turns: string[] = [];
+  let current: string[] = [];
+
+  for (const line of transcript.split(/\r?\n/)) {
+    const startsNewTurn = SPEAKER_TURN_PATTERN.test(line) || line.trim() === '';
+    if (startsNewTurn && current.length > 0) {
+      turns.push(current.join('\n'));
+      current = [];
+    }
+    if (line.trim() !== '') {
+      current.push(line);
+    }
+  }
+  if (current.length > 0) {
+    turns.push(current.join('\n'));
+  }
+
+  return turns;
+};
+
+const splitOversizedTurn = (turn: string, maxChars: number): string[] => {
+  if (turn.length <= maxChars) {
+    return [turn];
+  }
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of turn.split(SENTENCE_BOUNDARY_PATTERN)) {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    if (sentence.length > maxChars) {
+      for (let start = 0; start < sentence.length; start += maxChars) {
+        pieces.push(sentence.slice(start, start + maxChars));
+      }
+      continue;
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+  if (current) {
+    pieces.push(current);
+  }
+
+  return pieces;
+};
+
+const takeOverlap = (turns: string[], overlapChars: number): string[] => {
+  const overlap: string[] = [];
+  let size = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i] ?? '';
+    if (size + turn.length > overlapChars) {
+      break;
+    }
+    overlap.unshift(turn);
+    size += turn.length + 1;
+  }
+  return overlap;
+};
+
+export const splitTranscriptIntoChunks = (
+  transcript: string,
+  config: ChunkingConfig,
+): string[] => {
+  if (transcript.length <= config.maxChunkChars) {
+    return [transcript];
+  }
+
+  const turns = splitIntoTurns(transcript).flatMap((turn) =>
+    splitOversizedTurn(turn, config.maxChunkChars - config.overlapChars),
+  );
+
+  const chunks: string[] = [];
+  let currentTurns: string[] = [];
+  let currentSize = 0;
+  let newTurnsInChunk = 0;
+
+  for (const turn of turns) {
+    if (newTurnsInChunk > 0 && currentSize + turn.length + 1 > config.maxChunkChars) {
+      chunks.push(currentTurns.join('\n'));
+      currentTurns = takeOverlap(currentTurns, config.overlapChars);
+      currentSize = currentTurns.reduce((total, t) => total + t.length + 1, 0);
+      newTurnsInChunk = 0;
+    }
+    currentTurns.push(turn);
+    currentSize += turn.length + 1;
+    newTurnsInChunk++;
+  }
+  if (newTurnsInChunk > 0) {
+    chunks.push(currentTurns.join('\n'));
+  }
+
+  return chunks;
+};
@@ -0,0 +1,317 @@
+export type TranscriptFormat = 'webvtt' | 'srt' | 'chat' | 'otter' | 'plain';
+
+export type SpeakerTurn = {
+  speaker?: string;
+  timestamp?: string;
+  text: string;
+};
+
+export type ParsedTranscript = {
+  format: TranscriptFormat;
+  turns: SpeakerTurn[];
+  speakers: string[];
+  text: string;
+};
+
+type Cue = {
+  timestamp?: string;
+  lines: string[];
+};
+
+const CUE_TIMING_PATTERN = /^((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const SRT_CUE_PATTERN = /^\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/m;
+const CHAT_LINE_PATTERN =
+  /^(?:\[?((?:\d{1,2}:)?\d{1,2}:\d{2})\]?\s+)?(?:From\s+)?([\p{L}][\p{L}\p{M}\p{N} .'()@-]{0,60}?)(?:\s+to\s+[^:]{1,60})?\s*:\s+(.+)$/u;
+const OTTER_HEADER_PATTERN = /^([\p{L}][\p{L}\p{M}\p{N} .'()@-]{0,60}?)\s+((?:\d{1,2}:)?\d{1,2}:\d{2})\s*$/u;
+const VOICE_TAG_PATTERN = /<v(?:\.[\w.-]+)?\s+([^>]+)>/;
+const GENERIC_SPEAKER_PATTERN = /^(speaker|unknown|guest|participant)(\s*\d+)?$/i;
+// Up to four capitalized words, allowing lower-case particles such as "van" or "de".
+const NAME_SHAPED_PATTERN =
+  /^\p{Lu}[\p{L}\p{M}'.-]*(?:\s+(?:\p{Lu}[\p{L}\p{M}'.()-]*|van|von|der|den|de|da|del|di|du|la|le|bin|al)){0,3}$/u;
+// Labels that notes put before a colon and that are not people.
+const NOTE_LABELS = new Set([
+  'agenda', 'action', 'action item', 'action items', 'actions', 'attendees', 'background', 'blocker', 'blockers',
+  'budget', 'conclusion', 'context', 'date', 'deadline', 'decision', 'decisions', 'fyi', 'follow up', 'follow-up',
+  'goal', 'goals', 'issue', 'issues', 'location', 'meeting', 'minutes', 'next steps', 'note', 'notes', 'objective',
+  'objectives', 'outcome', 'outcomes', 'overview', 'owner', 'participants', 'priority', 'purpose', 'question',
+  'questions', 'recap', 'reminder', 'result', 'results', 'risk', 'risks', 'status', 'subject', 'summary', 'task',
+  'tasks', 'time', 'title', 'todo', 'to do', 'topic', 'topics', 'update', 'updates',
+]);
+const CAPTION_NOISE_PATTERNS = [
+  /<[^>]+>/g,
+  /\{\\[^}]*\}/g,
+  /\[(?:music|applause|laughter|laughs|silence|inaudible|crosstalk|background noise|noise)\]/gi,
+  /\((?:music|applause|laughter|laughs|silence|inaudible|crosstalk|background noise|noise)\)/gi,
+  /[♪♫]/g,
+];
+
+const normalizeTimestamp = (value: string): string => {
+  const [clock = ''] = value.split(/[.,]/);
+  const parts = clock.split(':').map((part) => part.padStart(2, '0'));
+  while (parts.length < 3) {
+    parts.unshift('00');
+  }
+  return parts.join(':');
+};
+
+// Chat logs show the clock time, so a short time like 10:00 is hours and minutes.
+const normalizeChatTime = (value: string): string =>
+  value.split(':').length === 2 ? normalizeTimestamp(`${value}:00`) : normalizeTimestamp(value);
+
+const stripCaptionNoise = (text: string): string => {
+  let cleaned = text;
+  for (const pattern of CAPTION_NOISE_PATTERNS) {
+    cleaned = cleaned.replace(pattern, ' ');
+  }
+  return cleaned
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const countMatchingLines = (lines: string[], pattern: RegExp): number =>
+  lines.filter((line) => pattern.test(line)).length;
+
+const isPlausibleSpeaker = (speaker: string): boolean =>
+  GENERIC_SPEAKER_PATTERN.test(speaker) ||
+  (NAME_SHAPED_PATTERN.test(speaker) && !NOTE_LABELS.has(speaker.toLowerCase()));
+
+// A "Label: text" line only counts as chat when it has a time or the label looks like a name,
+// so that "Agenda:" or "Decision:" lines in plain notes do not become speakers.
+const matchChatLine = (line: string): RegExpExecArray | null => {
+  const match = CHAT_LINE_PATTERN.exec(line);
+  if (!match?.[2] || !match[3]) {
+    return null;
+  }
+  return match[1] || isPlausibleSpeaker(match[2].trim()) ? match : null;
+};
+
+export const detectTranscriptFormat = (transcript: string): TranscriptFormat => {
+  const trimmed = transcript.replace(/^﻿/, '').trimStart();
+  if (/^WEBVTT\b/.test(trimmed)) {
+    return 'webvtt';
+  }
+  if (SRT_CUE_PATTERN.test(trimmed)) {
+    return 'srt';
+  }
+
+  const lines = trimmed.split(/\r?\n/).map((line) => line.trim()).filter((line) => line !== '');
+  if (lines.length === 0) {
+    return 'plain';
+  }
+
+  const otterHeaders = countMatchingLines(lines, OTTER_HEADER_PATTERN);
+  if (otterHeaders >= 2 && otterHeaders >= lines.length / 4) {
+    return 'otter';
+  }
+
+  const chatLines = lines.filter((line) => matchChatLine(line) !== null).length;
+  if (chatLines >= 2 && chatLines >= lines.length / 2) {
+    return 'chat';
+  }
+
+  return 'plain';
+};
+
+const splitCueSpeaker = (line: string): { speaker?: string; text: string } => {
+  const voiceMatch = VOICE_TAG_PATTERN.exec(line);
+  if (voiceMatch?.[1]) {
+    return { speaker: voiceMatch[1].trim(), text: line.replace(VOICE_TAG_PATTERN, '') };
+  }
+
+  const labelMatch = /^(?:-\s*)?([\p{L}][\p{L}\p{M}\p{N} .'-]{0,40}):\s+(.+)$/u.exec(line);
+  if (labelMatch?.[1] && labelMatch[2]) {
+    return { speaker: labelMatch[1].trim(), text: labelMatch[2] };
+  }
+
+  return { text: line };
+};
+
+const parseCaptionCues = (transcript: string): Cue[] => {
+  const cues: Cue[] = [];
+  const blocks = transcript.replace(/^﻿/, '').split(/\r?\n\s*\r?\n/);
+
+  for (const block of blocks) {
+    const lines = block.split(/\r?\n/).map((line) => line.trim()).filter((line) => line !== '');
+    const timingIndex = lines.findIndex((line) => CUE_TIMING_PATTERN.test(line));
+    if (timingIndex === -1) {
+      continue;
+    }
+
+    const timing = CUE_TIMING_PATTERN.exec(lines[timingIndex] ?? '');
+    cues.push({
+      ...(timing?.[1] && { timestamp: normalizeTimestamp(timing[1]) }),
+      lines: lines.slice(timingIndex + 1),
+    });
+  }
+
+  return cues;
+};
+
+const cuesToTurns = (cues: Cue[]): SpeakerTurn[] => {
+  const turns: SpeakerTurn[] = [];
+  let lastSpeaker: string | undefined;
+  let lastCueText = '';
+
+  for (const cue of cues) {
+    for (const line of cue.lines) {
+      const { speaker: labeledSpeaker, text: rawText } = splitCueSpeaker(line);
+      const text = stripCaptionNoise(rawText);
+      if (!text) {
+        continue;
+      }
+
+      const speaker = labeledSpeaker ?? lastSpeaker;
+      const previous = turns[turns.length - 1];
+
+      // Rolling captions repeat the previous cue; the same words from someone else are a new turn.
+      const isSameSpeaker = previous !== undefined && previous.speaker === speaker;
+      if (isSameSpeaker && (text === lastCueText || previous.text.endsWith(text))) {
+        continue;
+      }
+
+      if (isSameSpeaker) {
+        if (lastCueText && text.startsWith(lastCueText)) {
+          previous.text = `${previous.text.slice(0, previous.text.length - lastCueText.length)}${text}`;
+        } else {
+          previous.text = `${previous.text} ${text}`;
+        }
+      } else {
+        turns.push({
+          ...(speaker && { speaker }),
+          ...(cue.timestamp && { timestamp: cue.timestamp }),
+          text,
+        });
+      }
+
+      lastSpeaker = speaker;
+      lastCueText = text;
+    }
+  }
+
+  return turns;
+};
+
+const parseChatTranscript = (transcript: string): SpeakerTurn[] => {
+  const turns: SpeakerTurn[] = [];
+
+  for (const rawLine of transcript.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+
+    const match = matchChatLine(line);
+    const previous = turns[turns.length - 1];
+    if (!match?.[2] || !match[3]) {
+      if (previous) {
+        previous.text = `${previous.text} ${stripCaptionNoise(line)}`.trim();
+      } else {
+        turns.push({ text: stripCaptionNoise(line) });
+      }
+      continue;
+    }
+
+    const speaker = match[2].trim();
+    const text = stripCaptionNoise(match[3]);
+    if (!text) {
+      continue;
+    }
+
+    if (previous && previous.speaker === speaker) {
+      previous.text = `${previous.text} ${text}`;
+    } else {
+      turns.push({
+        speaker,
+        ...(match[1] && { timestamp: normalizeChatTime(match[1]) }),
+        text,
+      });
+    }
+  }
+
+  return turns;
+};
+
+const parseOtterTranscript = (transcript: string): SpeakerTurn[] => {
+  const turns: SpeakerTurn[] = [];
+  let current: SpeakerTurn | null = null;
+
+  for (const rawLine of transcript.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+
+    const header = OTTER_HEADER_PATTERN.exec(line);
+    if (header?.[1] && header[2]) {
+      current = { speaker: header[1].trim(), timestamp: normalizeTimestamp(header[2]), text: '' };
+      turns.push(current);
+      continue;
+    }
+
+    if (/^transcribed by https?:\/\/otter\.ai/i.test(line)) {
+      continue;
+    }
+
+    const text = stripCaptionNoise(line);
+    if (!text) {
+      continue;
+    }
+    if (current) {
+      current.text = current.text ? `${current.text} ${text}` : text;
+    } else {
+      current = { text };
+      turns.push(current);
+    }
+  }
+
+  return turns.filter((turn) => turn.text !== '');
+};
+
+const formatTurns = (turns: SpeakerTurn[]): string =>
+  turns
+    .map((turn) => {
+      const timestamp = turn.timestamp ? `[${turn.timestamp}] ` : '';
+      const speaker = turn.speaker ? `${turn.speaker}: ` : '';
+      return `${timestamp}${speaker}${turn.text}`;
+    })
+    .join('\n');
+
+const collectSpeakers = (turns: SpeakerTurn[]): string[] => {
+  const speakers: string[] = [];
+  for (const turn of turns) {
+    if (turn.speaker && !GENERIC_SPEAKER_PATTERN.test(turn.speaker) && !speakers.includes(turn.speaker)) {
+      speakers.push(turn.speaker);
+    }
+  }
+  return speakers;
+};
+
+export const parseTranscript = (transcript: string): ParsedTranscript => {
+  const format = detectTranscriptFormat(transcript);
+
+  let turns: SpeakerTurn[];
+  switch (format) {
+    case 'webvtt':
+    case 'srt':
+      turns = cuesToTurns(parseCaptionCues(transcript));
+      break;
+    case 'chat':
+      turns = parseChatTranscript(transcript);
+      break;
+    case 'otter':
+      turns = parseOtterTranscript(transcript);
+      break;
+    case 'plain':
+      return { format, turns: [{ text: transcript }], speakers: [], text: transcript };
+  }
+
+  if (turns.length === 0) {
+    throw new Error(`Transcript looks like ${format} but contains no spoken text`);
+  }
+
+  return { format, turns, speakers: collectSpeakers(turns), text: formatTurns(turns) };
+};
@@ -0,0 +1,143 @@
+import axios, { type AxiosResponse } from 'axios';
+import {
+  createConcurrencyLimiter,
+  getPositiveIntegerEnv,
+  withRetry,
+  type ConcurrencyLimiter,
+} from './http-retry.js';
+import { getLogger } from './logger.js';
+
+export type RecordTargetKind = 'person' | 'company' | 'opportunity';
+
+export type RecordTarget = {
+  kind: RecordTargetKind;
+  id: string;
+  name?: string;
+};
+
+type Connection<TNode> = {
+  edges?: { node: TNode }[];
+  pageInfo?: { hasNextPage?: boolean; endCursor?: string | null };
+};
+
+type GraphQLFilter = {
+  inputType: string;
+  value: Record<string, unknown>;
+};
+
+type TwentyMethod = 'get' | 'post' | 'patch' | 'delete';
+
+const PAGE_SIZE = 60;
+const MAX_PAGES = 100;
+
+let twentyLimiter: ConcurrencyLimiter | null = null;
+
+export const getTwentyApiConfig = () => {
+  const apiKey = process.env.TWENTY_API_KEY;
+  if (!apiKey) {
+    throw new Error('TWENTY_API_KEY environment variable is not set');
+  }
+
+  const baseUrl = process.env.TWENTY_API_URL;
+  if (!baseUrl) {
+    throw new Error('TWENTY_API_URL environment variable is not set');
+  }
+
+  return { apiKey, baseUrl };
+};
+
+// Every Twenty call goes through here so timeouts, retries and the workspace rate limit apply everywhere.
+// Each attempt takes its own limiter slot, so a request waiting to retry does not hold one. GraphQL
+// is only used for reads here, so only the REST creates are treated as not idempotent.
+export const requestTwenty = async (
+  method: TwentyMethod,
+  path: string,
+  data?: unknown,
+): Promise<AxiosResponse> => {
+  const { apiKey, baseUrl } = getTwentyApiConfig();
+  const timeout = getPositiveIntegerEnv('TWENTY_REQUEST_TIMEOUT_MS', 30000);
+  twentyLimiter ??= createConcurrencyLimiter(getPositiveIntegerEnv('TWENTY_MAX_CONCURRENT_REQUESTS', 4));
+
+  const limiter = twentyLimiter;
+
+  return withRetry(
+    () =>
+      limiter(() =>
+        axios.request({
+          method,
+          url: `${baseUrl}${path}`,
+          ...(data !== undefined && { data }),
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${apiKey}`,
+          },
+          timeout,
+        }),
+      ),
+    { label: `Twenty ${method.toUpperCase()} ${path}`, idempotent: method !== 'post' || path === '/graphql' },
+  );
+};
+
+// Record pages are served by the app, which is on the API URL unless TWENTY_APP_URL is set.
+export const getRecordUrl = (objectName: RecordTargetKind | 'workspaceMember' | 'calendarEvent', id: string): string => {
+  const appUrl = process.env.TWENTY_APP_URL || getTwentyApiConfig().baseUrl;
+  return `${appUrl.replace(/\/+$/, '')}/object/${objectName}/${id}`;
+};
+
+export const formatRecordTarget = (target: RecordTarget): string =>
+  `${target.kind} ${target.name ? `"${target.name}" ` : ''}(${target.id})`;
+
+export const dedupeRecordTargets = (targets: RecordTarget[]): RecordTarget[] => {
+  const seen = new Set<string>();
+  return targets.filter((target) => {
+    const key = `${target.kind}:${target.id}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+export const fetchAllGraphQLPages = async <TNode>(
+  connectionName: string,
+  nodeFields: string,
+  filter?: GraphQLFilter,
+): Promise<TNode[]> => {
+  const nodes: TNode[] = [];
+  let cursor: string | null = null;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const graphqlQuery: { query: string; variables: Record<string, unknown> } = {
+      query: `
+        query GetAllPages($first: Int, $after: String${filter ? `, $filter: ${filter.inputType}` : ''}) {
+          ${connectionName}(first: $first, after: $after${filter ? ', filter: $filter' : ''}) {
+            edges {
+              node {
+                ${nodeFields}
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      `,
+      variables: { first: PAGE_SIZE, after: cursor, ...(filter && { filter: filter.value }) },
+    };
+
+    const response = await requestTwenty('post', '/graphql', graphqlQuery);
+
+    const connection: Connection<TNode> | undefined = response.data?.data?.[connectionName];
+    nodes.push(...(connection?.edges ?? []).map((edge) => edge.node));
+
+    if (!connection?.pageInfo?.hasNextPage || !connection.pageInfo.endCursor) {
+      return nodes;
+    }
+    cursor = connection.pageInfo.endCursor;
+  }
+
+  getLogger().warn('Stopped loading after the page limit', { connection: connectionName, pages: MAX_PAGES });
+  return nodes;
+};
@@ -0,0 +1,176 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export type WebhookAuthConfig = {
+  signingSecrets: string[];
+  toleranceSeconds: number;
+  legacyToken?: string;
+};
+
+export type WebhookRequest = {
+  headers?: WebhookHeaders;
+  // The body the signature covers. The Twenty runtime only passes the parsed body to the function,
+  // so this is its canonical JSON.stringify form, not the bytes the sender sent.
+  signedBody: string;
+  token?: string;
+};
+
+export type WebhookAuthMethod = 'signature' | 'legacy token';
+
+export const SIGNATURE_HEADER = 'x-twenty-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-twenty-webhook-timestamp';
+
+const MAX_SEEN_SIGNATURES = 10000;
+
+// Kept per function instance, so replays are only caught while the instance stays warm.
+const seenSignatures = new Map<string, number>();
+
+const parseTolerance = (value: string | undefined): number => {
+  if (!value) {
+    return 300;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+export const getWebhookAuthConfig = (): WebhookAuthConfig => {
+  const signingSecrets = [
+    process.env.WEBHOOK_SIGNING_SECRET,
+    process.env.WEBHOOK_SIGNING_SECRET_PREVIOUS,
+  ].filter((secret): secret is string => !!secret);
+
+  const allowLegacyToken = (process.env.WEBHOOK_ALLOW_LEGACY_TOKEN || '').toLowerCase() === 'true';
+  const legacyToken = allowLegacyToken ? process.env.WEBHOOK_SECRET_TOKEN : undefined;
+
+  if (signingSecrets.length === 0 && !legacyToken) {
+    throw new Error(
+      'Webhook authentication is not configured: set WEBHOOK_SIGNING_SECRET, or WEBHOOK_ALLOW_LEGACY_TOKEN=true with WEBHOOK_SECRET_TOKEN',
+    );
+  }
+
+  return {
+    signingSecrets,
+    toleranceSeconds: parseTolerance(process.env.WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS),
+    ...(legacyToken && { legacyToken }),
+  };
+};
+
+const computeSignature = (secret: string, timestamp: string, rawBody: string): string =>
+  createHmac('sha256', secret).update(`${timestamp}:${rawBody}`).digest('hex');
+
+// Outgoing callbacks are signed like incoming requests, so receivers can reuse the same check.
+export const signWebhookBody = (rawBody: string, now: number = Date.now()): Record<string, string> => {
+  const [secret] = getWebhookAuthConfig().signingSecrets;
+  if (!secret) {
+    return {};
+  }
+  const timestamp = String(Math.floor(now / 1000));
+  return {
+    [SIGNATURE_HEADER]: `sha256=${computeSignature(secret, timestamp, rawBody)}`,
+    [TIMESTAMP_HEADER]: timestamp,
+  };
+};
+
+const readHeader = (headers: WebhookHeaders | undefined, name: string): string | undefined => {
+  if (!headers) {
+    return undefined;
+  }
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+  const value = Array.isArray(entry?.[1]) ? entry[1][0] : entry?.[1];
+  return value?.trim() || undefined;
+};
+
+const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+const parseTimestampMs = (timestamp: string): number | null => {
+  if (!/^\d+$/.test(timestamp)) {
+    return null;
+  }
+  const value = Number(timestamp);
+  return value > 1e12 ? value : value * 1000;
+};
+
+const rememberSignature = (key: string, expiresAt: number, now: number): boolean => {
+  for (const [seenKey, seenExpiresAt] of seenSignatures) {
+    if (seenExpiresAt <= now) {
+      seenSignatures.delete(seenKey);
+    }
+  }
+  if (seenSignatures.has(key)) {
+    return false;
+  }
+  if (seenSignatures.size >= MAX_SEEN_SIGNATURES) {
+    const oldestKey = seenSignatures.keys().next().value;
+    if (oldestKey !== undefined) {
+      seenSignatures.delete(oldestKey);
+    }
+  }
+  seenSignatures.set(key, expiresAt);
+  return true;
+};
+
+const verifySignature = (
+  request: WebhookRequest,
+  signatureHeader: string,
+  config: WebhookAuthConfig,
+  now: number,
+): void => {
+  const timestamp = readHeader(request.headers, TIMESTAMP_HEADER);
+  if (!timestamp) {
+    throw new Error(`Unauthorized webhook access: missing ${TIMESTAMP_HEADER} header.`);
+  }
+
+  const timestampMs = parseTimestampMs(timestamp);
+  const toleranceMs = config.toleranceSeconds * 1000;
+  if (timestampMs === null || Math.abs(now - timestampMs) > toleranceMs) {
+    throw new Error('Unauthorized webhook access: timestamp is outside the allowed window.');
+  }
+
+  const signature = signatureHeader.replace(/^sha256=/i, '').toLowerCase();
+  const isValid = config.signingSecrets.some((secret) =>
+    safeEqual(computeSignature(secret, timestamp, request.signedBody), signature),
+  );
+  if (!isValid) {
+    throw new Error('Unauthorized webhook access: invalid signature.');
+  }
+
+  // Keyed on the signature alone: any header that the HMAC does not cover could be changed to
+  // replay a captured request.
+  if (!rememberSignature(`signature:${signature}`, timestampMs + toleranceMs, now)) {
+    throw new Error('Unauthorized webhook access: request has already been processed (replay).');
+  }
+};
+
+export const verifyWebhookRequest = (
+  request: WebhookRequest,
+  config: WebhookAuthConfig,
+  now: number = Date.now(),
+): WebhookAuthMethod => {
+  const signatureHeader = readHeader(request.headers, SIGNATURE_HEADER);
+
+  if (signatureHeader && config.signingSecrets.length > 0) {
+    verifySignature(request, signatureHeader, config, now);
+    return 'signature';
+  }
+
+  if (config.legacyToken && request.token !== undefined) {
+    if (typeof request.token !== 'string' || !safeEqual(request.token, config.legacyToken)) {
+      throw new Error('Unauthorized webhook access: Invalid or missing token.');
+    }
+    return 'legacy token';
+  }
+
+  throw new Error(
+    config.signingSecrets.length > 0
+      ? `Unauthorized webhook access: missing ${SIGNATURE_HEADER} header.`
+      : 'Unauthorized webhook access: Invalid or missing token.',
+  );
+};